@@ -0,0 +1,126 @@
+import { ShapeDetectorCore } from "../src/detector-core.js";
+import {
+  sobelMagnitude,
+  thresholdEdges,
+  toGrayscale,
+} from "../src/image-processing.js";
+
+// --- PIXEL PIPELINE BENCHMARK ---
+// Compares the grayscale -> Sobel -> edge-map stages on flat typed arrays
+// against the original nested `number[][]` grids, on synthetic scenes
+// at common scan sizes. Run with `npm run bench`.
+
+const SIZES = [
+  { name: "1080p", width: 1920, height: 1080 },
+  { name: "4K", width: 3840, height: 2160 },
+];
+const RUNS = 5;
+const SOBEL_THRESHOLD = 128;
+
+/**
+ * Paints a white scene with a grid of black circles, squares and triangles.
+ */
+function makeScene(width: number, height: number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  const cell = 240;
+  for (let cy = cell / 2; cy < height; cy += cell) {
+    for (let cx = cell / 2; cx < width; cx += cell) {
+      const kind = Math.floor(cx / cell + cy / cell) % 3;
+      const r = cell * 0.35;
+      for (let y = Math.max(0, Math.floor(cy - r)); y < Math.min(height, cy + r); y++) {
+        for (let x = Math.max(0, Math.floor(cx - r)); x < Math.min(width, cx + r); x++) {
+          const dx = x - cx;
+          const dy = y - cy;
+          const inside =
+            kind === 0 ? dx * dx + dy * dy <= r * r :
+            kind === 1 ? true :
+            dy >= -r + Math.abs(dx) * 2;
+          if (inside) {
+            const i = (y * width + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = 0;
+          }
+        }
+      }
+    }
+  }
+  return data;
+}
+
+// The original grid-based stages, kept here as the baseline.
+function legacyGrayscale(data: Uint8ClampedArray, width: number, height: number): number[][] {
+  const grid: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      row.push(Math.round(0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2]));
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+function legacySobel(grid: number[][], width: number, height: number): number[][] {
+  const kernelX = [[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]];
+  const kernelY = [[-1, -2, -1], [0, 0, 0], [1, 2, 1]];
+  const edgeGrid: number[][] = Array.from({ length: height }, () => Array(width).fill(0));
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let gx = 0;
+      let gy = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        for (let kx = -1; kx <= 1; kx++) {
+          const pixelVal = grid[y + ky]?.[x + kx] ?? 0;
+          gx += pixelVal * kernelX[ky + 1][kx + 1];
+          gy += pixelVal * kernelY[ky + 1][kx + 1];
+        }
+      }
+      edgeGrid[y][x] = Math.sqrt(gx * gx + gy * gy) > SOBEL_THRESHOLD ? 255 : 0;
+    }
+  }
+  return edgeGrid;
+}
+
+/**
+ * Runs `fn` several times and returns the median time in ms, plus its last result.
+ */
+function time<T>(fn: () => T): { ms: number; result: T } {
+  const times: number[] = [];
+  let result!: T;
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    result = fn();
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  return { ms: times[Math.floor(times.length / 2)], result };
+}
+
+for (const { name, width, height } of SIZES) {
+  const data = makeScene(width, height);
+
+  const legacy = time(() => {
+    const edges = legacySobel(legacyGrayscale(data, width, height), width, height);
+    return edges.map(row => [...row]); // The copy made before tracing
+  });
+  const typed = time(() =>
+    thresholdEdges(sobelMagnitude(toGrayscale(data, width, height), width, height), SOBEL_THRESHOLD)
+  );
+
+  // The two edge maps must match pixel for pixel.
+  let mismatches = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (legacy.result[y][x] !== typed.result[y * width + x]) mismatches++;
+    }
+  }
+
+  const detector = new ShapeDetectorCore();
+  const full = time(() => detector.detectShapes(data, width, height));
+
+  console.log(`${name} (${width}x${height})`);
+  console.log(`  number[][] stages:  ${legacy.ms.toFixed(1)}ms`);
+  console.log(`  typed-array stages: ${typed.ms.toFixed(1)}ms (${(legacy.ms / typed.ms).toFixed(1)}x faster)`);
+  console.log(`  edge map mismatches: ${mismatches}`);
+  console.log(`  full detectShapes: ${full.ms.toFixed(1)}ms, ${full.result.shapes.length} shapes`);
+}
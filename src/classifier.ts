@@ -0,0 +1,68 @@
+import type { Contour, DetectedShape, Point } from "./detector-core.js";
+import type { DetectorOptions } from "./detector-options.js";
+import type { CircleFit, EllipseFit } from "./fitting.js";
+import type { OrientedBox } from "./geometry.js";
+import type { Moments } from "./moments.js";
+
+// --- SHAPE CLASSIFIERS ---
+// Each contour that makes it through the noise filters is measured once,
+// and every registered classifier gets a look at the measurements. Each
+// one that recognizes its shape returns a scored hypothesis, and the
+// highest score wins. The built-in classifiers (circle, ellipse, star,
+// polygon) always run first; more come from the `classifiers` option.
+
+/** What the detector measures of a contour, shared by all classifiers. */
+export interface ShapeFeatures {
+  /** The traced outline. */
+  contour: Contour;
+  area: number;
+  perimeter: number;
+  boundingBox: DetectedShape["boundingBox"];
+  /** Mean of the contour's points. */
+  center: Point;
+  /** 4π·area / perimeter²: 1 for a perfect circle. */
+  circularity: number;
+  hull: Contour;
+  hullArea: number;
+  /** Area over the hull's area: 1 for a convex shape. */
+  solidity: number;
+  /**
+   * Corners after RDP simplification, recounted at the finer tolerance for
+   * solid shapes, or where the outline turns if that finds more.
+   */
+  vertices: Point[];
+  /**
+   * The share of a convex outline's turning that happens at sharp corners:
+   * about 0.9 for a polygon, well under 0.5 for a circle or an ellipse, and
+   * 0 for an outline that isn't convex.
+   */
+  cornerTurning: number;
+  /** Bounding box width over height, or height over width, whichever is larger. */
+  aspectRatio: number;
+  /** The smallest rectangle around the hull, turned to fit it. */
+  orientedBox: OrientedBox;
+  /** Area moments of the region the contour encloses. */
+  moments: Moments;
+  /** Least-squares circle and ellipse through the contour, null if the fit failed. */
+  circleFit: CircleFit | null;
+  ellipseFit: EllipseFit | null;
+}
+
+/**
+ * A classifier's answer: the shape's type, how sure it is (0 to 1), and
+ * any details to report. The detector fills in the area, bounding box,
+ * center, oriented box and orientation from the contour for whatever the
+ * hypothesis leaves out, and the descriptors if asked. A score of 0
+ * doesn't count.
+ */
+export type ShapeHypothesis = {
+  type: DetectedShape["type"];
+  score: number;
+} & Partial<Omit<DetectedShape, "type" | "confidence" | "descriptors" | "style" | "id" | "parentId" | "children">>;
+
+export interface ShapeClassifier {
+  /** A short name, such as the type it finds. */
+  name: string;
+  /** The hypothesis for one contour, or null if it isn't this classifier's shape. */
+  classify(features: ShapeFeatures, options: DetectorOptions): ShapeHypothesis | null;
+}
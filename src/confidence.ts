@@ -0,0 +1,59 @@
+import type { Contour, Point } from "./detector-core.js";
+
+// --- CONFIDENCE ---
+// Every rule that picks a shape's class compares a measurement with a
+// threshold, and just past the threshold a competing class would do
+// about as well. A shape's confidence is the lower of two scores: how
+// closely its contour follows the chosen model, and how far its closest
+// call sits from the threshold that decided it.
+
+/**
+ * How clearly `value` passes a rule: 0.5 right at `threshold`, where the
+ * competing class is as likely, rising to 1 at `ideal` and staying there.
+ * `ideal` may lie either side of `threshold`; 0 on the failing side.
+ */
+export function marginScore(value: number, threshold: number, ideal: number): number {
+  if (ideal === threshold) return value === threshold ? 0.5 : 1;
+  const t = (value - threshold) / (ideal - threshold);
+  return t < 0 ? 0 : Math.min(0.5 + 0.5 * t, 1);
+}
+
+/**
+ * RMS distance (px) from the contour's points to the nearest side of the
+ * closed polygon through `vertices`: how far the outline strays from the
+ * straight sides the polygon claims it has.
+ */
+export function polygonResidual(contour: Contour, vertices: Point[]): number {
+  if (contour.length === 0 || vertices.length < 2) return 0;
+  let total = 0;
+  for (const p of contour) {
+    let best = Infinity;
+    for (let i = 0; i < vertices.length; i++) {
+      best = Math.min(best, distanceToSegment(p, vertices[i], vertices[(i + 1) % vertices.length]));
+    }
+    total += best * best;
+  }
+  return Math.sqrt(total / contour.length);
+}
+
+/**
+ * How far (degrees) the outline turns at each vertex of a closed polygon.
+ * A convex polygon's turns add up to 360°, each 360° / n when it is regular.
+ */
+export function turningAngles(vertices: Point[]): number[] {
+  const n = vertices.length;
+  return vertices.map((curr, i) => {
+    const prev = vertices[(i + n - 1) % n];
+    const next = vertices[(i + 1) % n];
+    const turn = Math.atan2(next.y - curr.y, next.x - curr.x) - Math.atan2(curr.y - prev.y, curr.x - prev.x);
+    return (Math.abs(Math.atan2(Math.sin(turn), Math.cos(turn))) * 180) / Math.PI;
+  });
+}
+
+/** Distance from `p` to the segment from `a` to `b`. */
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
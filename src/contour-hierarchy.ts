@@ -0,0 +1,162 @@
+import type { Contour, Point } from "./detector-core.js";
+
+// --- BORDER FOLLOWING WITH HIERARCHY ---
+// Suzuki & Abe, "Topological Structural Analysis of Digitized Binary Images
+// by Border Following" (1985). Every border in a binary image is either the
+// outer border of a blob or the border of a hole inside one, and each border
+// knows which border directly encloses it. That tells the outline of a hole
+// (e.g. the inside of a ring) apart from a separate shape nested in it.
+
+export interface ContourNode {
+  /** The border pixels, in tracing order. */
+  points: Contour;
+  /** True for the border of a hole, false for the outer border of a blob. */
+  isHole: boolean;
+  /**
+   * Index of the directly enclosing border in the returned array,
+   * or -1 if only the image frame encloses it. The parent of an outer
+   * border is always a hole (or the frame), and vice versa.
+   */
+  parent: number;
+}
+
+// Neighbors in clockwise order (E, SE, S, SW, W, NW, N, NE),
+// the same order `ShapeDetectorCore` uses.
+const NEIGHBORS: Point[] = [
+  { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }, { x: -1, y: 1 },
+  { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 },
+];
+const EAST = 0;
+const WEST = 4;
+
+/**
+ * Finds every border in a binary image (any nonzero pixel is foreground,
+ * 8-connected) along with how the borders nest. Parents always come before
+ * their children in the returned array.
+ */
+export function findContourHierarchy(
+  binary: Uint8Array,
+  width: number,
+  height: number
+): ContourNode[] {
+  // f holds 1 for unvisited foreground, and ±(border number + 2) once a
+  // border has passed through. Border number n lives at nodes[n].
+  const f = new Int32Array(width * height);
+  for (let i = 0; i < binary.length; i++) {
+    if (binary[i] !== 0) f[i] = 1;
+  }
+  const at = (x: number, y: number) =>
+    x < 0 || x >= width || y < 0 || y >= height ? 0 : f[y * width + x];
+  const label = (border: number) => border + 2; // 0 and 1 are taken
+  const borderOf = (value: number) => Math.abs(value) - 2;
+
+  const nodes: ContourNode[] = [];
+  for (let y = 0; y < height; y++) {
+    // The last border crossed on this row, -1 for the frame
+    let lastBorder = -1;
+    for (let x = 0; x < width; x++) {
+      const value = f[y * width + x];
+      if (value === 0) continue;
+
+      let startDir = -1;
+      let isHole = false;
+      if (value === 1 && at(x - 1, y) === 0) {
+        startDir = WEST; // Outer border starts here
+      } else if (value >= 1 && at(x + 1, y) === 0) {
+        startDir = EAST; // Hole border starts here
+        isHole = true;
+        if (value > 1) lastBorder = borderOf(value);
+      }
+
+      if (startDir !== -1) {
+        // The enclosing border, from the type of the last border crossed
+        let parent = -1;
+        if (lastBorder !== -1) {
+          const last = nodes[lastBorder];
+          parent = isHole === last.isHole ? last.parent : lastBorder;
+        }
+        const border = nodes.length;
+        nodes.push({
+          points: followBorder(f, at, width, { x, y }, startDir, label(border)),
+          isHole,
+          parent,
+        });
+      }
+
+      const current = f[y * width + x];
+      if (current !== 1) lastBorder = borderOf(current);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Follows one border from `start`, writing its label into `f` as it goes,
+ * and returns the pixels it passed through.
+ */
+function followBorder(
+  f: Int32Array,
+  at: (x: number, y: number) => number,
+  width: number,
+  start: Point,
+  startDir: number,
+  label: number
+): Contour {
+  const index = (p: Point) => p.y * width + p.x;
+  const step = (p: Point, dir: number) => ({ x: p.x + NEIGHBORS[dir].x, y: p.y + NEIGHBORS[dir].y });
+
+  // 3.1: look clockwise from the starting background pixel for a neighbor
+  let firstDir = -1;
+  for (let i = 0; i < 8; i++) {
+    const dir = (startDir + i) % 8;
+    const p = step(start, dir);
+    if (at(p.x, p.y) !== 0) {
+      firstDir = dir;
+      break;
+    }
+  }
+  if (firstDir === -1) {
+    f[index(start)] = -label; // An isolated pixel
+    return [start];
+  }
+
+  // "first" is where the border ends: tracing runs counterclockwise from here
+  const first = step(start, firstDir);
+  const points: Contour = [start];
+  let previous = first;
+  let current = start;
+  for (;;) {
+    // 3.3: look counterclockwise, starting just past the previous pixel
+    const back = NEIGHBORS.findIndex(
+      (n) => n.x === previous.x - current.x && n.y === previous.y - current.y
+    );
+    let nextDir = -1;
+    let eastIsBackground = false;
+    for (let i = 1; i <= 8; i++) {
+      const dir = (back - i + 8) % 8;
+      const p = step(current, dir);
+      if (at(p.x, p.y) !== 0) {
+        nextDir = dir;
+        break;
+      }
+      if (dir === EAST) eastIsBackground = true;
+    }
+
+    // 3.4: mark the pixel; negative means the border's right side is background
+    if (eastIsBackground) {
+      f[index(current)] = -label;
+    } else if (f[index(current)] === 1) {
+      f[index(current)] = label;
+    }
+
+    // 3.5: stop once we are back at the start, coming from the pixel
+    // that the first clockwise search found (the border's last pixel)
+    const next = step(current, nextDir);
+    if (next.x === start.x && next.y === start.y && current.x === first.x && current.y === first.y) {
+      return points;
+    }
+    previous = current;
+    current = next;
+    points.push(current);
+  }
+}
@@ -0,0 +1,72 @@
+import type { Contour } from "./detector-core.js";
+import { resampleContour } from "./geometry.js";
+import { contourMoments, huMoments } from "./moments.js";
+import type { Moments } from "./moments.js";
+
+// --- SHAPE DESCRIPTORS ---
+// Numbers that describe a shape's form but not where it sits, how big it
+// is or which way it is turned, so that shapes can be clustered, searched
+// or compared without going back to their contours.
+
+// How many points the contour is resampled to, evenly spaced along it,
+// before its Fourier transform. Plenty for the harmonics kept.
+const FOURIER_SAMPLES = 128;
+// How many harmonics either way round the Fourier descriptors keep
+const FOURIER_HARMONICS = 8;
+
+export interface ShapeDescriptors {
+  /** Area moments of the region the contour encloses, up to third order. */
+  moments: Moments;
+  /** The seven Hu moments. */
+  huMoments: number[];
+  /** The contour's Fourier descriptors (see `fourierDescriptors`). */
+  fourier: number[];
+}
+
+/**
+ * All the descriptors of the shape a contour outlines. `moments` can be
+ * passed in when they have been computed already.
+ */
+export function shapeDescriptors(contour: Contour, moments: Moments = contourMoments(contour)): ShapeDescriptors {
+  return { moments, huMoments: huMoments(moments), fourier: fourierDescriptors(contour) };
+}
+
+/**
+ * Fourier descriptors of a closed contour. The contour is resampled at
+ * even spacing and read as complex numbers x + iy, running the same way
+ * round whichever way it was traced; Z_k is the k-th coefficient of their
+ * Fourier transform. Leaving out Z_0 ignores where the shape sits, taking
+ * magnitudes ignores which way it is turned and where the contour starts,
+ * and dividing by |Z_1|, the circle that fits it best, ignores its size.
+ * Entry 2(k − 1) is |Z_k| / |Z_1| and entry 2(k − 1) + 1 is
+ * |Z_−k| / |Z_1|, for k from 1 to `harmonics`, so the first is always 1.
+ * A circle has 0 for all the rest. All are 0 for a contour with no length.
+ */
+export function fourierDescriptors(contour: Contour, harmonics: number = FOURIER_HARMONICS): number[] {
+  const points = resampleContour(contour, FOURIER_SAMPLES);
+  if (!points) return new Array(2 * harmonics).fill(0);
+  // Run the way that makes Z_1, not Z_−1, the larger of the two
+  let winding = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i], q = points[(i + 1) % points.length];
+    winding += p.x * q.y - q.x * p.y;
+  }
+  if (winding < 0) points.reverse();
+
+  const magnitude = (k: number): number => {
+    let re = 0, im = 0;
+    for (let j = 0; j < points.length; j++) {
+      const angle = (-2 * Math.PI * k * j) / points.length;
+      const { x, y } = points[j];
+      re += x * Math.cos(angle) - y * Math.sin(angle);
+      im += x * Math.sin(angle) + y * Math.cos(angle);
+    }
+    return Math.hypot(re, im) / points.length;
+  };
+  const scale = magnitude(1);
+  const descriptors: number[] = [];
+  for (let k = 1; k <= harmonics; k++) {
+    descriptors.push(scale > 0 ? magnitude(k) / scale : 0, scale > 0 ? magnitude(-k) / scale : 0);
+  }
+  return descriptors;
+}
@@ -0,0 +1,159 @@
+import type {
+  DetectionControl,
+  DetectionResult,
+  PixelBuffer,
+} from "./detector-core.js";
+import type { DetectorOptions } from "./detector-options.js";
+import type { DetectionRequest, DetectionResponse } from "./detection-worker.js";
+
+interface PendingJob {
+  resolve: (result: DetectionResult) => void;
+  reject: (error: unknown) => void;
+  control: DetectionControl;
+  /** The worker running this job, and only this job. */
+  worker: Worker;
+}
+
+/**
+ * Runs detection in a Web Worker so large images don't freeze the page.
+ * Same inputs and outputs as `ShapeDetectorCore.detectShapes`, but async.
+ *
+ * Each job runs on a worker of its own, so jobs in flight together don't
+ * wait for each other. Cancelling a job terminates its worker, since a
+ * busy worker can't read new messages; the other jobs carry on. A worker
+ * that finishes its job is kept for the next one.
+ */
+export class DetectionWorkerClient {
+  // A worker with no job, ready for the next one
+  private idleWorker: Worker | null = null;
+  private nextId = 1;
+  private jobs = new Map<number, PendingJob>();
+  private defaults: Partial<DetectorOptions>;
+
+  constructor(defaults: Partial<DetectorOptions> = {}) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * Detects shapes in a copy of `data` on a worker thread.
+   * Rejects with an "AbortError" `DOMException` if `control.signal` is aborted.
+   */
+  detectShapes(
+    data: PixelBuffer,
+    width: number,
+    height: number,
+    overrides?: Partial<DetectorOptions>,
+    control: DetectionControl = {}
+  ): Promise<DetectionResult> {
+    const { signal } = control;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const id = this.nextId++;
+    const worker = this.takeWorker();
+    return new Promise<DetectionResult>((resolve, reject) => {
+      const onAbort = () => {
+        this.jobs.delete(id);
+        worker.terminate();
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.jobs.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+        control,
+        worker,
+      });
+
+      // Copy the pixels so the caller keeps its buffer, then hand the copy over.
+      const pixels = new Uint8ClampedArray(data);
+      const request: DetectionRequest = {
+        id,
+        pixels,
+        width,
+        height,
+        defaults: this.defaults,
+        overrides,
+      };
+      worker.postMessage(request, [pixels.buffer]);
+    });
+  }
+
+  /** Stops every worker and fails any jobs still running. */
+  terminate(): void {
+    this.idleWorker?.terminate();
+    this.idleWorker = null;
+    const jobs = [...this.jobs.values()];
+    this.jobs.clear();
+    for (const job of jobs) {
+      job.worker.terminate();
+      job.reject(new DOMException("Detection worker was stopped", "AbortError"));
+    }
+  }
+
+  /** The idle worker, or a new one, for the next job. */
+  private takeWorker(): Worker {
+    const idle = this.idleWorker;
+    if (idle) {
+      this.idleWorker = null;
+      return idle;
+    }
+    const worker = new Worker(new URL("./detection-worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.addEventListener("message", (event: MessageEvent<DetectionResponse>) =>
+      this.handleResponse(event.data)
+    );
+    // A worker that failed can't be trusted with another job: drop it and
+    // fail the job it was running; the next job gets a new worker.
+    worker.addEventListener("error", (event) => {
+      worker.terminate();
+      if (this.idleWorker === worker) this.idleWorker = null;
+      for (const [jobId, job] of this.jobs) {
+        if (job.worker !== worker) continue;
+        this.jobs.delete(jobId);
+        job.reject(new Error(`Detection worker failed: ${event.message}`));
+      }
+    });
+    return worker;
+  }
+
+  private handleResponse(response: DetectionResponse): void {
+    const job = this.jobs.get(response.id);
+    if (!job) return; // Cancelled while the message was in flight
+    switch (response.type) {
+      case "progress":
+        job.control.onProgress?.(response.progress);
+        break;
+      case "result":
+        this.jobs.delete(response.id);
+        this.releaseWorker(job.worker);
+        job.resolve(response.result);
+        break;
+      case "error": {
+        this.jobs.delete(response.id);
+        this.releaseWorker(job.worker);
+        const error = new Error(response.message);
+        error.name = response.name;
+        job.reject(error);
+        break;
+      }
+    }
+  }
+
+  /** Keeps a worker whose job is done for the next job, unless one is kept already. */
+  private releaseWorker(worker: Worker): void {
+    if (this.idleWorker) {
+      worker.terminate();
+    } else {
+      this.idleWorker = worker;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { ShapeDetectorCore } from "./detector-core.js";
+import type { DetectionProgress, DetectionResult } from "./detector-core.js";
+import type { DetectorOptions } from "./detector-options.js";
+
+// --- WEB WORKER ENTRY POINT ---
+// Runs `ShapeDetectorCore` off the main thread. `DetectionWorkerClient`
+// (detection-client.ts) starts this worker and speaks the protocol below.
+
+/** Sent by the page: one detection job. `pixels` is transferred, not copied. */
+export interface DetectionRequest {
+  id: number;
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  defaults: Partial<DetectorOptions>;
+  overrides?: Partial<DetectorOptions>;
+}
+
+/** Sent back to the page, tagged with the id of the job it belongs to. */
+export type DetectionResponse =
+  | { id: number; type: "progress"; progress: DetectionProgress }
+  | { id: number; type: "result"; result: DetectionResult }
+  | { id: number; type: "error"; name: string; message: string };
+
+// The DOM lib has no worker-scope types; the parts we use match `Worker`.
+const scope = self as unknown as Worker;
+
+scope.addEventListener("message", (event: MessageEvent<DetectionRequest>) => {
+  const { id, pixels, width, height, defaults, overrides } = event.data;
+  const reply = (response: DetectionResponse) => scope.postMessage(response);
+  try {
+    const core = new ShapeDetectorCore(defaults);
+    const result = core.detectShapes(pixels, width, height, overrides, {
+      onProgress: (progress) => reply({ id, type: "progress", progress }),
+    });
+    reply({ id, type: "result", result });
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error(String(error));
+    reply({ id, type: "error", name, message });
+  }
+});
@@ -0,0 +1,1765 @@
+import { resolveDetectorOptions } from "./detector-options.js";
+import type { DetectorOptions } from "./detector-options.js";
+import {
+  backgroundDistance,
+  cannyEdges,
+  colorCannyEdges,
+  colorSobelGradients,
+  gaussianBlur,
+  medianFilter,
+  sobelGradients,
+  sobelMagnitude,
+  thresholdEdges,
+  toGrayscale,
+  toLab,
+} from "./image-processing.js";
+import type { Gradients } from "./image-processing.js";
+import { applyMorphology, dilate } from "./morphology.js";
+import type { Morphology } from "./morphology.js";
+import { binarize, removeSmallBlobs } from "./segmentation.js";
+import { findContourHierarchy } from "./contour-hierarchy.js";
+import type { ContourNode } from "./contour-hierarchy.js";
+import {
+  classifyQuadrilateral,
+  clockwiseFromTop,
+  cornersByTurning,
+  findStar,
+  minAreaRect,
+  normalizeAngle,
+} from "./geometry.js";
+import {
+  angularCoverage,
+  convexityDefects,
+  ellipseContour,
+  extendedCorner,
+  findNeck,
+  polygonContour,
+  splitContour,
+} from "./shape-splitting.js";
+import type { OrientedBox, Quadrilateral, Star } from "./geometry.js";
+import type { ConvexityDefect } from "./shape-splitting.js";
+import { sampleLineStyle, sampleShapeStyle } from "./shape-style.js";
+import type { ShapeStyle } from "./shape-style.js";
+import { fitCircle, fitEllipse, snapToRidge } from "./fitting.js";
+import { houghCircles, houghLines } from "./hough.js";
+import type { LineSegment } from "./hough.js";
+import { marginScore, polygonResidual, turningAngles } from "./confidence.js";
+import { contourMoments } from "./moments.js";
+import type { ShapeClassifier, ShapeFeatures, ShapeHypothesis } from "./classifier.js";
+import { shapeDescriptors } from "./descriptors.js";
+import type { ShapeDescriptors } from "./descriptors.js";
+import { templateFromContour, templateSimilarity } from "./template-matching.js";
+import type { ShapeTemplate } from "./template-matching.js";
+
+// --- TYPE DEFINITIONS ---
+export interface Point {
+  x: number;
+  y: number;
+}
+export type Contour = Point[];
+export interface DetectedShape {
+  /** Index of this shape in `DetectionResult.shapes`. */
+  id: number;
+  /**
+   * One of the built-in types, "custom" for a match to one of the
+   * `templates`, or whatever a classifier from the options names its shape.
+   */
+  type:
+    | "circle"
+    | "ellipse"
+    | "triangle"
+    | "rectangle"
+    | "pentagon"
+    | "hexagon"
+    | "heptagon"
+    | "octagon"
+    | "polygon"
+    | "star"
+    | "custom"
+    | "line"
+    | (string & {});
+  confidence: number;
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  center: Point;
+  area: number;
+  /** The smallest rectangle around the shape, turned to fit it. */
+  orientedBox: OrientedBox;
+  /**
+   * How far the shape is turned, in degrees clockwise: the direction of an
+   * ellipse's major axis, or of the oriented box's longer side, in [0, 180);
+   * for a square or rhombus, in [0, 90).
+   * For a star, the direction of a tip from straight up, in
+   * [0, 360 / points); for a line, its own direction. Meaningless for
+   * circles.
+   */
+  orientation: number;
+  /** Circles: the radius of the least-squares circle fit (px). */
+  radius?: number;
+  /** Ellipses: the fitted semi-axes (px). */
+  semiMajorAxis?: number;
+  semiMinorAxis?: number;
+  /** Circles and ellipses: RMS distance (px) from the contour to the fitted curve. */
+  fitResidual?: number;
+  /** Polygons: the number of sides. The only way to tell a generic `polygon`'s shape. */
+  sides?: number;
+  /** Stars: how many tips. */
+  points?: number;
+  /** Stars: mean distance from `center` to the tips and to the valleys between them. */
+  outerRadius?: number;
+  innerRadius?: number;
+  /**
+   * Rectangles: which kind of four-sided shape it really is. `type` stays
+   * "rectangle" for all of them.
+   */
+  subtype?: Quadrilateral;
+  /**
+   * The corners of a polygon or star, clockwise from the topmost one.
+   * Circles have none.
+   */
+  vertices?: Point[];
+  /**
+   * Lines (found by the Hough line pass): the two ends, leftmost first
+   * (topmost if vertical), and the distance between them (px). A line's
+   * `area` is 0.
+   */
+  endpoints?: [Point, Point];
+  length?: number;
+  /**
+   * With the `descriptors` option: the moments, Hu moments and Fourier
+   * descriptors of the contour the shape was read from.
+   */
+  descriptors?: ShapeDescriptors;
+  /** Custom shapes: the label of the template matched, and how similar (0 to 1) to it. */
+  label?: string;
+  similarity?: number;
+  /** Fill and stroke colors, sampled from the original pixels. */
+  style: ShapeStyle;
+  /**
+   * The id of the nearest shape this one sits inside, or null at the top
+   * level. Shapes from the Hough passes are always at the top level.
+   */
+  parentId: number | null;
+  /** The ids of the shapes sitting directly inside this one. */
+  children: number[];
+}
+export interface DetectionResult {
+  shapes: DetectedShape[];
+  processingTime: number;
+  imageWidth: number;
+  imageHeight: number;
+  /** The noise filters that ran, in order; empty if none did. */
+  preprocessing: PreprocessingStep[];
+  /** With the `debug` option: every traced border and what became of it, in tracing order. */
+  candidates?: CandidateTrace[];
+  /** With the `debug` option: the images the pipeline worked on. */
+  stageImages?: StageImages;
+  /**
+   * With `templates`: every contour that made it to classification, with
+   * the template it is most like, most similar first.
+   */
+  templateMatches?: TemplateMatch[];
+}
+
+/** How much a contour looks like its closest template. */
+export interface TemplateMatch {
+  contour: Contour;
+  boundingBox: DetectedShape["boundingBox"];
+  center: Point;
+  /** The closest template's label. */
+  label: string;
+  /** 0 to 1; a match if at least `minTemplateSimilarity`. */
+  similarity: number;
+}
+
+/**
+ * The intermediate images of one run, one value per pixel, row by row.
+ */
+export interface StageImages {
+  /** The grayscale image, after any preprocessing. */
+  grayscale: Uint8Array;
+  /** Sobel gradient magnitude of that image (of L*a*b* in color mode), whichever edge detector ran. */
+  sobelMagnitude: Float32Array;
+  /**
+   * The binary map contours were traced in (nonzero = set): the edge map,
+   * or in region mode the foreground mask.
+   */
+  map: Uint8Array;
+}
+
+/**
+ * One traced border's way through the pipeline, as the `debug` option
+ * reports it: what it measured and which rule kept or dropped it.
+ */
+export interface CandidateTrace {
+  /** The border's points, as traced. */
+  contour: Contour;
+  /** True for the inside edge of something, such as a ring's inner edge. */
+  isHole: boolean;
+  features: CandidateFeatures;
+  /** Its convex hull. */
+  hull: Contour;
+  /** Its corners after RDP simplification. */
+  vertices: Point[];
+  /** "contours" for the noise and nesting filters, "classification" for the rest. */
+  stage: DetectionStage;
+  rule: CandidateRule;
+  accepted: boolean;
+  /** The ids of the shapes it became; empty if it was dropped. */
+  shapeIds: number[];
+}
+
+/** What `classifyShape` measures of a contour. */
+export interface CandidateFeatures {
+  area: number;
+  perimeter: number;
+  /** 4π·area / perimeter²: 1 for a perfect circle. */
+  circularity: number;
+  /** Area over the convex hull's area. */
+  solidity: number;
+  hullArea: number;
+  /** Corners after RDP simplification (and the finer recount for solid shapes). */
+  vertexCount: number;
+  /** Bounding box width over height, or height over width, whichever is larger. */
+  aspectRatio: number;
+}
+
+/**
+ * Why a border was kept or dropped. Dropped while tracing:
+ * - "hole": a hole border, never a shape on its own;
+ * - "minContourLength", "minArea": too small, taken for noise;
+ * - "innerEdge": the inner edge of the stroke of the border around it.
+ *
+ * Dropped while classifying, by the option whose test it failed:
+ * - "maxAspectRatio": too skinny, a line or text;
+ * - "vertexCount": fewer than 3 corners;
+ * - "minTriangleSolidity", "minRectangleSolidity", "minPentagonSolidity",
+ *   "minPolygonSolidity": corners for that polygon, but not solid enough;
+ * - "houghCircle": classified, but it lies along a Hough circle that
+ *   replaced it.
+ *
+ * Kept: "classified", "classifiedInnerEdge" (its own outline failed, the
+ * inner edge of its stroke passed), "split" (several shapes touching) or
+ * "templateMatch" (like one of the `templates`).
+ */
+export type CandidateRule =
+  | "hole"
+  | "minContourLength"
+  | "minArea"
+  | "innerEdge"
+  | ClassificationFailure
+  | "houghCircle"
+  | "classified"
+  | "classifiedInnerEdge"
+  | "split"
+  | "templateMatch";
+
+/** One filter applied by the preprocessing stage. */
+export interface PreprocessingStep {
+  operation: "median" | "gaussian" | Exclude<Morphology, "none">;
+  /** Gaussian: σ (px). The others: radius (px) of their square window. */
+  size: number;
+  /** The image (grayscale, or L*a*b* in color mode), or the binary edge map / region mask. */
+  target: "image" | "map";
+}
+/**
+ * Raw RGBA pixels, 4 bytes per pixel, row by row.
+ * `ImageData.data` is one of these, and so is a decoded PNG buffer in Node.
+ */
+export type PixelBuffer = Uint8ClampedArray | Uint8Array;
+/** The pipeline stages, in the order they run. */
+export type DetectionStage = "grayscale" | "preprocessing" | "edges" | "contours" | "classification";
+export interface DetectionProgress {
+  /** The stage that is about to run. */
+  stage: DetectionStage;
+  /** How much of the whole run is done, from 0 to 1. */
+  progress: number;
+}
+/**
+ * Hooks for watching and cancelling a single `detectShapes` run.
+ */
+export interface DetectionControl {
+  /** Called as each stage starts, and once more with progress 1 at the end. */
+  onProgress?: (progress: DetectionProgress) => void;
+  /** Checked between stages; aborting it makes `detectShapes` throw. */
+  signal?: AbortSignal;
+}
+
+const STAGES: DetectionStage[] = ["grayscale", "preprocessing", "edges", "contours", "classification"];
+
+// The two edges of a stroke are never closer than this fraction of their
+// widest gap. A stroked square's corners are √2 times its sides, about 0.7.
+const STROKE_EVENNESS = 0.5;
+
+// A circle or ellipse fit's RMS residual, as a fraction of its radius, at
+// which its confidence reaches 0.
+const FIT_RESIDUAL_TOLERANCE = 0.1;
+
+// The RMS residual (px) that tracing whole pixels leaves on a perfect curve.
+const PIXEL_NOISE = 0.3;
+
+// --- Tuned ---
+// The share of a convex outline's turning that has to happen at sharp
+// corners for it to count as a polygon (see `cornersByTurning`), and the
+// share at which that is clear. Regular polygons up to 14 sides come to
+// 0.7 or more once they are 80px across, and circles and ellipses to
+// under 0.2.
+const MIN_CORNER_TURNING = 0.5;
+const CLEAR_CORNER_TURNING = 0.75;
+
+// How deep (px) a notch in the convex hull has to be to count as a star's
+// valley. Tracing whole pixels leaves notches of up to about a pixel along
+// straight sides; a 4-point star with an inner radius two thirds of its
+// outer one, 120px across, has valleys 2.4px deep.
+const MIN_STAR_VALLEY_DEPTH = 1.5;
+
+// Shapes merged into one blob still fill most of its convex hull. An open
+// outline, traced out and back along itself, fills almost none of it.
+const MIN_SPLIT_SOLIDITY = 0.5;
+
+// A Hough circle whose box overlaps a traced shape's this much (IoU) is
+// that shape, found again.
+const HOUGH_OVERLAP = 0.5;
+
+// Edge pixels this close (px) to a shape's outline, beyond its stroke,
+// belong to it.
+const HOUGH_BAND = 3;
+
+// A traced piece with this much of its outline along a Hough circle is
+// part of that circle.
+const HOUGH_PIECE_SHARE = 0.5;
+
+// Names for the polygons with more sides than a pentagon; the rest are "polygon".
+const POLYGON_NAMES: Record<number, DetectedShape["type"]> = {
+  6: "hexagon",
+  7: "heptagon",
+  8: "octagon",
+};
+
+/**
+ * An outer border that passed the noise filters, waiting to be classified.
+ */
+interface ShapeCandidate {
+  contour: Contour;
+  metrics: ContourMetrics;
+  /** The candidate this one sits inside, if any. */
+  enclosing: ShapeCandidate | null;
+  /** The largest hole directly inside this border, e.g. the inner edge of its outline. */
+  hole: Contour | null;
+  /** What `classifyShape` made of it, once classified: several shapes if it was split. */
+  shapes: DetectedShape[];
+  /** Its entry in the `debug` trace, if that is on. */
+  trace: CandidateTrace | null;
+}
+
+/** A shape split off a merged blob, with the part of the blob it came from. */
+interface SplitShape {
+  shape: UnstyledShape;
+  /** The piece of the blob's outline, closed with straight cuts. */
+  outline: Contour;
+}
+// What `classifyShape` returns; `analyzeContours` samples the style.
+type UnstyledShape = Omit<DetectedShape, "style">;
+// The rule a contour failed when `classifyShape` finds no shape in it.
+type ClassificationFailure =
+  | "maxAspectRatio"
+  | "vertexCount"
+  | "minTriangleSolidity"
+  | "minRectangleSolidity"
+  | "minPentagonSolidity"
+  | "minPolygonSolidity";
+type ContourMetrics = ReturnType<ShapeDetectorCore["calculateMetrics"]>;
+
+// `classifyShape` builds shapes on their own; `analyzeContours` fills these in.
+const unlinked = (): Pick<DetectedShape, "id" | "parentId" | "children"> => ({
+  id: -1,
+  parentId: null,
+  children: [],
+});
+
+// --- DETECTION CORE ---
+/**
+ * The whole detection pipeline, with no DOM or canvas dependency.
+ * It only needs an RGBA buffer, so it runs the same in the browser,
+ * in Node and inside a Web Worker.
+ */
+export class ShapeDetectorCore {
+  private width: number = 0;
+  private height: number = 0;
+  // The options given to the constructor, on top of the defaults.
+  private defaultOptions: DetectorOptions;
+  // The options in effect for the current `detectShapes` call.
+  private options: DetectorOptions;
+  // The current image's gradients, which circle and ellipse fits snap
+  // their points to (see `snapToRidge`).
+  private gradients: Gradients | null = null;
+  // Shapes a classifier from the options found. Like template matches,
+  // they may have notches of their own, so they are never split.
+  private readonly customShapes = new WeakSet<UnstyledShape>();
+  // Asked before any classifier from the options, in this order.
+  private readonly builtInClassifiers: ShapeClassifier[] = [
+    { name: "circle", classify: (features) => this.classifyCircle(features) },
+    { name: "ellipse", classify: (features) => this.classifyEllipse(features) },
+    { name: "star", classify: (features) => this.classifyStar(features) },
+    { name: "polygon", classify: (features) => this.classifyPolygon(features) },
+  ];
+
+  constructor(options: Partial<DetectorOptions> = {}) {
+    this.defaultOptions = resolveDetectorOptions(options);
+    this.options = this.defaultOptions;
+  }
+
+  /**
+   * Runs the pipeline on a raw RGBA buffer and returns every shape it finds.
+   * Any `overrides` apply to this call only.
+   * If `control.signal` is aborted, this throws its abort reason
+   * (an "AbortError" `DOMException` by default) before the next stage.
+   */
+  detectShapes(
+    data: PixelBuffer,
+    width: number,
+    height: number,
+    overrides?: Partial<DetectorOptions>,
+    control: DetectionControl = {}
+  ): DetectionResult {
+    if (data.length < width * height * 4) {
+      throw new RangeError(
+        `Pixel buffer too small: expected ${width * height * 4} bytes for ${width}x${height}, got ${data.length}`
+      );
+    }
+    this.options = resolveDetectorOptions(this.defaultOptions, overrides);
+    const startTime = performance.now();
+    this.width = width;
+    this.height = height;
+    const enterStage = (stage: DetectionStage) => {
+      control.signal?.throwIfAborted();
+      control.onProgress?.({ stage, progress: STAGES.indexOf(stage) / STAGES.length });
+    };
+
+    // Step 1: Turn the image black and white (grayscale)
+    // (in color mode, L*a*b* instead, which keeps the hue)
+    enterStage("grayscale");
+    let gray = toGrayscale(data, width, height);
+    let lab = this.options.colorMode === "color" ? toLab(data, width, height) : null;
+
+    // Step 1b: Optionally filter out noise before it turns into edges
+    enterStage("preprocessing");
+    const preprocessing: PreprocessingStep[] = [];
+    const { medianRadius, blurSigma } = this.options;
+    if (Math.round(medianRadius) >= 1) {
+      gray = medianFilter(gray, width, height, medianRadius);
+      lab = lab && lab.map((channel) => medianFilter(channel, width, height, medianRadius));
+      preprocessing.push({ operation: "median", size: Math.round(medianRadius), target: "image" });
+    }
+    if (blurSigma > 0) {
+      gray = Uint8Array.from(gaussianBlur(gray, width, height, blurSigma), Math.round);
+      lab = lab && lab.map((channel) => gaussianBlur(channel, width, height, blurSigma));
+      preprocessing.push({ operation: "gaussian", size: blurSigma, target: "image" });
+    }
+    this.gradients = lab ? colorSobelGradients(lab, width, height) : sobelGradients(gray, width, height);
+
+    // Step 2: Find all the outlines (edges), or in region mode the solid blobs
+    enterStage("edges");
+    const regionMode = this.options.contourSource === "regions";
+    let map = regionMode ? this.segmentRegions(gray, lab) : this.findEdges(gray, lab);
+    const { morphology, morphologyRadius } = this.options;
+    if (morphology !== "none") {
+      map = applyMorphology(map, width, height, morphology, morphologyRadius);
+      preprocessing.push({ operation: morphology, size: Math.round(morphologyRadius), target: "map" });
+    }
+
+    // Step 3: Follow the outlines to find individual shapes (contours)
+    enterStage("contours");
+    if (regionMode) {
+      removeSmallBlobs(map, width, height, this.options.minArea);
+    }
+    const contours = findContourHierarchy(map, width, height);
+
+    // Step 4: Figure out what each shape is (circle, triangle, etc.)
+    enterStage("classification");
+    let { shapes, outlines, traces, matches } = this.analyzeContours(contours, data);
+
+    // Step 4b: Optionally let the edge pixels vote for circles and lines,
+    // which finds them even where their outline is broken
+    if (this.options.hough !== "none") {
+      const edges = regionMode ? this.findEdges(gray, lab) : map;
+      shapes = this.addHoughShapes(shapes, outlines, edges, this.gradients, data, traces);
+    }
+    control.onProgress?.({ stage: "classification", progress: 1 });
+
+    const processingTime = performance.now() - startTime;
+    return {
+      shapes,
+      processingTime,
+      imageWidth: this.width,
+      imageHeight: this.height,
+      preprocessing,
+      ...(traces && {
+        candidates: traces,
+        stageImages: {
+          grayscale: gray,
+          sobelMagnitude: this.gradients.magnitude,
+          map,
+        },
+      }),
+      ...(matches && { templateMatches: matches }),
+    };
+  }
+
+  /**
+   * A template from a reference image: the outline of the largest contour
+   * that gets through the noise filters, whether or not it is one of the
+   * built-in shapes. Null if there is none. The image is run through the
+   * pipeline with the detector's options and any `overrides`.
+   */
+  createTemplate(
+    data: PixelBuffer,
+    width: number,
+    height: number,
+    label: string,
+    overrides?: Partial<DetectorOptions>
+  ): ShapeTemplate | null {
+    const { candidates = [] } = this.detectShapes(data, width, height, { ...overrides, debug: true, templates: [] });
+    let largest: CandidateTrace | null = null;
+    for (const candidate of candidates) {
+      if (candidate.stage !== "classification") continue;
+      if (!largest || candidate.features.area > largest.features.area) largest = candidate;
+    }
+    return largest && templateFromContour(largest.contour, label);
+  }
+
+  // --- STEP 2: EDGE DETECTION ---
+
+  /**
+   * Builds the binary edge map with the selected `edgeMode`,
+   * from the L*a*b* channels when given (color mode).
+   */
+  private findEdges(gray: Uint8Array, lab: Float32Array[] | null): Uint8Array {
+    const { width, height, options } = this;
+    if (options.edgeMode === "canny") {
+      const canny = {
+        sigma: options.cannySigma,
+        lowThreshold: options.cannyLowThreshold,
+        highThreshold: options.cannyHighThreshold,
+      };
+      return lab ? colorCannyEdges(lab, width, height, canny) : cannyEdges(gray, width, height, canny);
+    }
+    const magnitude = lab
+      ? colorSobelGradients(lab, width, height).magnitude
+      : sobelMagnitude(gray, width, height);
+    return thresholdEdges(magnitude, options.sobelThreshold);
+  }
+
+  /**
+   * Region mode's replacement for `findEdges`: a foreground mask
+   * (1 = part of a shape) from Otsu or adaptive thresholding.
+   * In color mode what gets thresholded is each pixel's color distance
+   * from the background, which is high for shapes of any hue.
+   */
+  private segmentRegions(gray: Uint8Array, lab: Float32Array[] | null): Uint8Array {
+    const { width, height, options } = this;
+    const image = lab ? backgroundDistance(lab, width, height) : gray;
+    return binarize(image, width, height, {
+      method: options.thresholdMethod,
+      foreground: lab ? "light" : options.foreground,
+      blockSize: options.adaptiveBlockSize,
+      offset: options.adaptiveOffset,
+    });
+  }
+
+  // --- STEP 4: ANALYSIS & CLASSIFICATION ---
+
+  /**
+   * This is where we analyze all the contours we found.
+   * `nodes` come from border following, so each one knows whether it
+   * outlines a hole and which border encloses it. `data` is the original
+   * RGBA image, for the shapes' colors. Also returns the outline each
+   * shape was read from, by id, with the `debug` option a trace of every
+   * border, and with `templates` how much each candidate is like them.
+   */
+  private analyzeContours(
+    nodes: ContourNode[],
+    data: PixelBuffer
+  ): {
+    shapes: DetectedShape[];
+    outlines: Contour[];
+    traces: CandidateTrace[] | null;
+    matches: TemplateMatch[] | null;
+  } {
+    const shapes: DetectedShape[] = [];
+    const outlines: Contour[] = [];
+    // The candidate each border belongs to, if it made it past the filters
+    const candidateOf: (ShapeCandidate | null)[] = new Array(nodes.length).fill(null);
+    const candidates: ShapeCandidate[] = [];
+    const traces: CandidateTrace[] | null = this.options.debug ? [] : null;
+    const matches: TemplateMatch[] | null = this.options.templates.length > 0 ? [] : null;
+    // Records what became of a border; it is settled later if classified
+    const trace = (node: ContourNode, stage: DetectionStage, rule: CandidateRule): CandidateTrace | null => {
+      if (!traces) return null;
+      const entry: CandidateTrace = {
+        contour: node.points,
+        isHole: node.isHole,
+        ...this.describeCandidate(node.points),
+        stage,
+        rule,
+        accepted: false,
+        shapeIds: [],
+      };
+      traces.push(entry);
+      return entry;
+    };
+
+    // 1. Get the metrics (area, center, etc.) for every outer border.
+    // Hole borders are never shapes on their own: they are the inside edge
+    // of something else (e.g. the inner edge of a circle's outline).
+    nodes.forEach((node, index) => {
+      if (node.isHole) {
+        const owner = node.parent === -1 ? null : candidateOf[node.parent];
+        if (owner && owner.contour === nodes[node.parent].points &&
+            node.points.length > (owner.hole?.length ?? this.options.minContourLength)) {
+          owner.hole = node.points;
+        }
+        trace(node, "contours", "hole");
+        return;
+      }
+      // --- Tuned ---
+      // Filter out tiny contours (noise). Defaults to 30 to catch the small triangle.
+      if (node.points.length <= this.options.minContourLength) {
+        trace(node, "contours", "minContourLength");
+        return;
+      }
+      const metrics = this.calculateMetrics(node.points);
+      // --- Tuned ---
+      // Filter out tiny noise contours. Defaults to 50 to catch the small triangle.
+      if (metrics.area < this.options.minArea) {
+        trace(node, "contours", "minArea");
+        return;
+      }
+
+      // 2. Find the candidate this border sits inside, through the holes.
+      let ancestor = node.parent;
+      while (ancestor !== -1 && !candidateOf[ancestor]) {
+        ancestor = nodes[ancestor].parent;
+      }
+      const enclosing = ancestor === -1 ? null : candidateOf[ancestor];
+
+      // A stroked outline has an outer and an inner edge, and the inner one
+      // shows up nested inside the outer one. It belongs to the same shape.
+      if (enclosing && this.isInnerEdgeOf(node.points, enclosing.contour)) {
+        candidateOf[index] = enclosing;
+        trace(node, "contours", "innerEdge");
+        return;
+      }
+
+      const candidate: ShapeCandidate = {
+        contour: node.points,
+        metrics,
+        enclosing,
+        hole: null,
+        shapes: [],
+        trace: trace(node, "classification", "classified"),
+      };
+      candidateOf[index] = candidate;
+      candidates.push(candidate);
+    });
+
+    // 3. Classify the remaining "real" shapes. Parents come before
+    // their children, so a parent always has the lower id.
+    for (const candidate of candidates) {
+      let rule: CandidateRule = "classified";
+      // A contour like one of the templates is what the user is looking
+      // for, whatever else it looks like
+      let match: TemplateMatch | null = null;
+      if (matches) {
+        match = this.closestTemplate(candidate.contour, candidate.metrics);
+        matches.push(match);
+      }
+      const matched = match !== null && match.similarity >= this.options.minTemplateSimilarity;
+      let shape = matched
+        ? this.customShape(candidate.contour, candidate.metrics, match!)
+        : this.classifyShape(candidate.contour, candidate.metrics);
+      // Where a shape's edge runs into something else (a line, a neighbor)
+      // the outer border takes that in too, but the inner edge is still clean.
+      if (typeof shape === "string" && candidate.hole) {
+        const metrics = this.calculateMetrics(candidate.hole);
+        if (metrics.area >= this.options.minArea) {
+          const inner = this.classifyShape(candidate.hole, metrics);
+          if (typeof inner !== "string") rule = "classifiedInnerEdge";
+          shape = typeof inner === "string" ? shape : inner;
+        }
+      }
+      if (typeof shape === "string") rule = shape;
+      if (matched) rule = "templateMatch";
+      // Touching or overlapping shapes trace as one blob, which comes out
+      // as nothing or the wrong shape: split it where the outlines meet.
+      // A star's valleys look just like those meeting points, and a
+      // template or a custom classifier's shape may have notches of its
+      // own. A blob that did come out as a shape is only split if every
+      // piece is surer than it was.
+      const split = matched || (typeof shape !== "string" && (shape.type === "star" || this.customShapes.has(shape)))
+        ? null
+        : this.splitMerged(candidate.contour, candidate.metrics, new Set(), 0);
+      const whole = shape;
+      const pieces = split && (typeof whole === "string" || split.every((piece) => piece.shape.confidence > whole.confidence))
+        ? split
+        : null;
+      if (pieces) rule = "split";
+      // Colors are read along the outer border even when the hole was
+      // classified: that is where the stroke starts. The candidates inside
+      // this one are left out, or a nested shape's color would be read as
+      // the fill and the fill as a stroke around it.
+      const found = pieces ?? (typeof shape !== "string" ? [{ shape, outline: candidate.contour }] : []);
+      const nested = found.length > 0
+        ? candidates.filter((other) => other.enclosing === candidate).map((other) => other.contour)
+        : [];
+      for (const { shape, outline } of found) {
+        const style = sampleShapeStyle(
+          data, this.width, this.height, outline, this.options.colorTolerance, nested
+        );
+        const styled: DetectedShape = { ...shape, id: shapes.length, style };
+        candidate.shapes.push(styled);
+        shapes.push(styled);
+        outlines.push(outline);
+      }
+      if (candidate.trace) {
+        candidate.trace.rule = rule;
+        candidate.trace.accepted = found.length > 0;
+        candidate.trace.shapeIds = candidate.shapes.map((s) => s.id);
+      }
+    }
+
+    // 4. Link each shape to the nearest enclosing candidate that is also a
+    // shape (of a split blob, the piece whose box holds this shape's center).
+    for (const candidate of candidates) {
+      let parent = candidate.enclosing;
+      while (parent && parent.shapes.length === 0) parent = parent.enclosing;
+      if (!parent) continue;
+      for (const shape of candidate.shapes) {
+        const parentShape = parent.shapes.find((p) => this.boxContains(p.boundingBox, shape.center)) ??
+          parent.shapes[0];
+        shape.parentId = parentShape.id;
+        parentShape.children.push(shape.id);
+      }
+    }
+    matches?.sort((a, b) => b.similarity - a.similarity);
+    return { shapes, outlines, traces, matches };
+  }
+
+  /** The template a contour is most like, and how much. */
+  private closestTemplate(contour: Contour, metrics: ContourMetrics): TemplateMatch {
+    const descriptors = shapeDescriptors(contour);
+    let label = "";
+    let similarity = -1;
+    for (const template of this.options.templates) {
+      const score = templateSimilarity(descriptors, template, this.options.matchMethod);
+      if (score > similarity) {
+        label = template.label;
+        similarity = score;
+      }
+    }
+    return { contour, boundingBox: metrics.boundingBox, center: metrics.center, label, similarity };
+  }
+
+  /** A contour that matched a template, as a "custom" shape. */
+  private customShape(contour: Contour, metrics: ContourMetrics, match: TemplateMatch): UnstyledShape {
+    // The convex hull gives the tightest rotated box around the shape.
+    const orientedBox = minAreaRect(this.calculateConvexHull(contour));
+    return {
+      type: "custom",
+      confidence: match.similarity,
+      ...metrics,
+      orientedBox,
+      orientation: orientedBox.angle,
+      label: match.label,
+      similarity: match.similarity,
+      ...(this.options.descriptors && { descriptors: shapeDescriptors(contour) }),
+      ...unlinked(),
+    };
+  }
+
+  /** What a `debug` trace reports of a border's shape. */
+  private describeCandidate(contour: Contour): Pick<CandidateTrace, "features" | "hull" | "vertices"> {
+    const metrics = this.calculateMetrics(contour);
+    const { circularity, hull, solidity, hullArea, vertices, aspectRatio } = this.measureContour(contour, metrics);
+    return {
+      features: {
+        area: metrics.area,
+        perimeter: metrics.perimeter,
+        circularity,
+        solidity,
+        hullArea,
+        vertexCount: vertices.length,
+        aspectRatio,
+      },
+      hull,
+      vertices,
+    };
+  }
+
+  private boxContains(box: DetectedShape["boundingBox"], point: Point): boolean {
+    return point.x >= box.x && point.x <= box.x + box.width &&
+      point.y >= box.y && point.y <= box.y + box.height;
+  }
+
+  private boxIoU(a: DetectedShape["boundingBox"], b: DetectedShape["boundingBox"]): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) return 0;
+    const intersection = width * height;
+    return intersection / (a.width * a.height + b.width * b.height - intersection);
+  }
+
+  // --- HOUGH PASSES ---
+
+  /**
+   * Adds what the Hough passes find in `edges` to the traced `shapes`
+   * (`outlines` holds the outline each was traced from). A Hough circle
+   * that a traced shape already covers is left out; one that isn't
+   * replaces the traced pieces lying along it, such as the two halves of a
+   * circle with a band across it. Lines are only looked for among the edge
+   * pixels no shape accounts for, so a polygon's sides don't come back as
+   * lines. Returns all the shapes, numbered afresh; `traces`, if given,
+   * are brought up to date.
+   */
+  private addHoughShapes(
+    shapes: DetectedShape[],
+    outlines: Contour[],
+    edges: Uint8Array,
+    gradients: Gradients,
+    data: PixelBuffer,
+    traces: CandidateTrace[] | null
+  ): DetectedShape[] {
+    const { width, height, options } = this;
+    let found: { shape: DetectedShape; outline: Contour }[] =
+      shapes.map((shape, i) => ({ shape, outline: outlines[i] }));
+
+    if (options.hough === "circles" || options.hough === "both") {
+      const circles = houghCircles(edges, gradients, width, height, {
+        minRadius: options.houghMinRadius,
+        maxRadius: options.houghMaxRadius,
+        minSupport: options.houghCircleSupport,
+      });
+      for (const circle of circles) {
+        const { center } = circle;
+        const edge = circle.radius;
+        const outer = { x: center.x - edge, y: center.y - edge, width: 2 * edge, height: 2 * edge };
+        if (found.some(({ shape }) => this.boxIoU(shape.boundingBox, outer) >= HOUGH_OVERLAP)) continue;
+        const outline = ellipseContour({ center, semiMajor: edge, semiMinor: edge, angle: 0 });
+        const style = sampleShapeStyle(data, width, height, outline, options.colorTolerance);
+        const band = HOUGH_BAND + style.strokeWidth;
+        found = found.filter(({ shape, outline }) => !this.liesAlongCircle(shape, outline, center, edge, band));
+        // The circle runs along the outside of the stroke; the circle drawn
+        // is the middle of it
+        const radius = edge - style.strokeWidth / 2;
+        const boundingBox = { x: center.x - radius, y: center.y - radius, width: 2 * radius, height: 2 * radius };
+        found.push({
+          shape: {
+            type: "circle",
+            confidence: Math.min(circle.support, this.fitConfidence(circle.residual, radius)),
+            boundingBox,
+            center,
+            area: Math.PI * radius * radius,
+            orientedBox: { center, width: 2 * radius, height: 2 * radius, angle: 0 },
+            orientation: 0,
+            radius,
+            fitResidual: circle.residual,
+            ...(options.descriptors && { descriptors: shapeDescriptors(outline) }),
+            style,
+            ...unlinked(),
+          },
+          outline,
+        });
+      }
+    }
+
+    if (options.hough === "lines" || options.hough === "both") {
+      const segments = houghLines(this.unclaimedEdges(edges, found), width, height, {
+        minVotes: options.houghLineVotes,
+        minLength: options.houghMinLineLength,
+        maxGap: options.houghMaxLineGap,
+      });
+      for (const segment of segments) {
+        const shape = this.lineShape(segment, data);
+        // An edge between two areas, not a line drawn over the background
+        if (!shape.style.stroke) continue;
+        found.push({ shape, outline: [segment.start, segment.end] });
+      }
+    }
+
+    // Dropping pieces shifts the ids along, and with them the links
+    const ids = new Map(found.map(({ shape }, i) => [shape.id, i]));
+    for (const trace of traces ?? []) {
+      if (!trace.accepted) continue;
+      trace.shapeIds = trace.shapeIds.filter((id) => ids.has(id)).map((id) => ids.get(id)!);
+      if (trace.shapeIds.length === 0) {
+        trace.rule = "houghCircle";
+        trace.accepted = false;
+      }
+    }
+    return found.map(({ shape }, i) => ({
+      ...shape,
+      id: i,
+      parentId: shape.parentId === null ? null : ids.get(shape.parentId) ?? null,
+      children: shape.children.filter((child) => ids.has(child)).map((child) => ids.get(child)!),
+    }));
+  }
+
+  /**
+   * True if a traced shape is a piece of the circle: it sits inside it,
+   * and most of its outline runs within `band` px of the circle's edge.
+   */
+  private liesAlongCircle(shape: DetectedShape, outline: Contour, center: Point, radius: number, band: number): boolean {
+    if (Math.hypot(shape.center.x - center.x, shape.center.y - center.y) >= radius) return false;
+    const along = outline.filter((p) =>
+      Math.abs(Math.hypot(p.x - center.x, p.y - center.y) - radius) <= band
+    ).length;
+    return along >= HOUGH_PIECE_SHARE * outline.length;
+  }
+
+  /**
+   * The edge pixels left once every shape's outline, and its stroke, is
+   * taken out: `HOUGH_BAND` px either side of the outline, plus the
+   * stroke's width inward. The outline is the shape as detected rather
+   * than as traced, which takes in anything running into it, such as a
+   * line touching a corner.
+   */
+  private unclaimedEdges(edges: Uint8Array, found: { shape: DetectedShape; outline: Contour }[]): Uint8Array {
+    const { width, height } = this;
+    const byReach = new Map<number, Uint8Array>();
+    for (const { shape, outline } of found) {
+      const reach = HOUGH_BAND + Math.ceil(shape.style.strokeWidth);
+      let mask = byReach.get(reach);
+      if (!mask) {
+        mask = new Uint8Array(width * height);
+        byReach.set(reach, mask);
+      }
+      for (const p of polygonContour(this.idealOutline(shape) ?? outline)) {
+        if (p.x >= 0 && p.x < width && p.y >= 0 && p.y < height) mask[p.y * width + p.x] = 1;
+      }
+    }
+    const free = Uint8Array.from(edges);
+    for (const [reach, mask] of byReach) {
+      const claimed = dilate(mask, width, height, reach);
+      for (let i = 0; i < free.length; i++) {
+        if (claimed[i]) free[i] = 0;
+      }
+    }
+    return free;
+  }
+
+  /** The outline a shape's own geometry describes, or null without any. */
+  private idealOutline(shape: DetectedShape): Contour | null {
+    if (shape.radius !== undefined) {
+      return ellipseContour({ center: shape.center, semiMajor: shape.radius, semiMinor: shape.radius, angle: 0 });
+    }
+    if (shape.semiMajorAxis !== undefined && shape.semiMinorAxis !== undefined) {
+      return ellipseContour({
+        center: shape.center,
+        semiMajor: shape.semiMajorAxis,
+        semiMinor: shape.semiMinorAxis,
+        angle: shape.orientation,
+      });
+    }
+    return shape.vertices ?? shape.endpoints ?? null;
+  }
+
+  /** A Hough line segment as a shape of type "line". */
+  private lineShape(segment: LineSegment, data: PixelBuffer): DetectedShape {
+    const [start, end] = [segment.start, segment.end].sort((p, q) => p.x - q.x || p.y - q.y);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    const angle = normalizeAngle((Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI, 180);
+    const style = sampleLineStyle(data, this.width, this.height, start, end, this.options.colorTolerance);
+    return {
+      type: "line",
+      confidence: Math.min(segment.support, 0.99),
+      boundingBox: {
+        x: start.x,
+        y: Math.min(start.y, end.y),
+        width: end.x - start.x,
+        height: Math.abs(end.y - start.y),
+      },
+      center,
+      area: 0,
+      orientedBox: { center, width: length, height: style.strokeWidth, angle },
+      orientation: angle,
+      endpoints: [start, end],
+      length,
+      ...(this.options.descriptors && { descriptors: shapeDescriptors([start, end]) }),
+      style,
+      ...unlinked(),
+    };
+  }
+
+  // --- SPLITTING MERGED SHAPES ---
+
+  /**
+   * Splits a blob of touching or overlapping shapes at its narrowest neck
+   * between two deep notches (see `shape-splitting.ts`), then deals with
+   * each piece in turn: split again if it still holds several shapes,
+   * otherwise completed where the other shape hid it and classified.
+   * `cut` holds the points of the straight cuts made so far. Returns null
+   * unless every piece ends up as a shape.
+   */
+  private splitMerged(
+    contour: Contour,
+    metrics: ContourMetrics,
+    cut: Set<Point>,
+    depth: number
+  ): SplitShape[] | null {
+    if (depth >= this.options.maxSplitDepth) return null;
+    const hull = this.calculateConvexHull(contour);
+    if (metrics.area < MIN_SPLIT_SOLIDITY * this.calculateMetrics(hull).area) return null;
+    const minDepth = this.options.minDefectDepth * Math.sqrt(metrics.area);
+    const defects = convexityDefects(contour, hull, minDepth);
+    if (defects.length < 2) return null;
+    const neck = findNeck(contour, defects, this.options.minContourLength);
+    if (!neck) return null;
+
+    const found: SplitShape[] = [];
+    for (const piece of splitContour(contour, neck[0], neck[1], cut)) {
+      const pieceMetrics = this.calculateMetrics(piece);
+      if (pieceMetrics.area < this.options.minArea) return null;
+      const pieces = this.splitMerged(piece, pieceMetrics, cut, depth + 1);
+      if (pieces) {
+        found.push(...pieces);
+        continue;
+      }
+      const completed = this.completePiece(piece, cut);
+      if (this.straysFrom(piece, completed, cut)) return null;
+      const shape = this.classifyShape(completed, this.calculateMetrics(completed));
+      if (typeof shape === "string") return null;
+      found.push({ shape, outline: piece });
+    }
+    return found;
+  }
+
+  /**
+   * Fills back in the part of a split-off piece that the other shape hid.
+   * If the traced part of its outline follows a circle or an ellipse over
+   * at least half of it, the whole curve is drawn; a polygon gets back the
+   * corner its two cut-off edges were heading for. Anything else keeps its
+   * straight cuts.
+   */
+  private completePiece(piece: Contour, cut: Set<Point>): Contour {
+    let traced = piece.filter((p) => !cut.has(p));
+    if (this.gradients) traced = snapToRidge(traced, this.gradients, this.width, this.height);
+    const circle = fitCircle(traced);
+    if (
+      circle &&
+      this.excessResidual(circle.residual) <= this.options.maxCircleResidual * circle.radius &&
+      angularCoverage(traced, circle.center) >= Math.PI
+    ) {
+      return ellipseContour({ center: circle.center, semiMajor: circle.radius, semiMinor: circle.radius, angle: 0 });
+    }
+    const ellipse = fitEllipse(traced);
+    if (
+      ellipse &&
+      ellipse.semiMajor / ellipse.semiMinor <= this.options.maxAspectRatio &&
+      ellipse.residual <= this.options.maxEllipseResidual * Math.sqrt(ellipse.semiMajor * ellipse.semiMinor) &&
+      angularCoverage(traced, ellipse.center) >= Math.PI
+    ) {
+      return ellipseContour(ellipse);
+    }
+
+    // The traced part in order from one cut to the other, if there is
+    // only the one cut: a piece split again has more.
+    const start = piece.findIndex((p, i) => !cut.has(p) && cut.has(piece[(i || piece.length) - 1]));
+    if (start === -1) return piece;
+    const run = piece.slice(start).concat(piece.slice(0, start)).slice(0, traced.length);
+    if (run.some((p) => cut.has(p))) return piece;
+    const perimeter = this.calculateMetrics(piece).perimeter;
+    const polyline = this.simplifyContour(run, this.options.simplifyEpsilon * perimeter);
+    if (polyline.length < 4) return piece;
+    const ends = Math.hypot(run[0].x - run[run.length - 1].x, run[0].y - run[run.length - 1].y);
+    const corner = extendedCorner(polyline, 2 * ends);
+    return corner ? polygonContour([...polyline.slice(1, -1), corner]) : piece;
+  }
+
+  /**
+   * True if the traced part of a piece strays from its completed outline
+   * by as much as the fine RDP tolerance (RMS): the piece was no shape,
+   * just a stretch of some other outline, such as a few of a many-pointed
+   * star's tips, closed off by the cut.
+   */
+  private straysFrom(piece: Contour, completed: Contour, cut: Set<Point>): boolean {
+    if (completed === piece) return false;
+    const traced = piece.filter((p) => !cut.has(p));
+    if (traced.length === 0) return false;
+    const sum = traced.reduce((total, p) => total + this.distanceToContour(p, completed) ** 2, 0);
+    const tolerance = this.options.fineSimplifyEpsilon * this.calculateMetrics(completed).perimeter;
+    return Math.sqrt(sum / traced.length) > tolerance;
+  }
+
+  /**
+   * True if `inner` runs alongside `outer` the whole way round at a roughly
+   * even gap no wider than `innerContourDistance`: the two edges of one
+   * stroke. A separate shape nested inside comes closer in some places than
+   * others (a circle inside a square touches its sides but not its corners).
+   */
+  private isInnerEdgeOf(inner: Contour, outer: Contour): boolean {
+    const maxGap = this.options.innerContourDistance;
+    let largest = 0;
+    let smallest = Infinity;
+    for (const p of inner) {
+      const d = this.distanceToContour(p, outer);
+      largest = Math.max(largest, d);
+      smallest = Math.min(smallest, d);
+      if (largest > maxGap) return false;
+    }
+    for (const p of outer) {
+      largest = Math.max(largest, this.distanceToContour(p, inner));
+      if (largest > maxGap) return false;
+    }
+    return smallest >= STROKE_EVENNESS * largest;
+  }
+
+  /**
+   * Distance from a point to the nearest point of a contour.
+   */
+  private distanceToContour(point: Point, contour: Contour): number {
+    let best = Infinity;
+    for (const q of contour) {
+      const d = (q.x - point.x) ** 2 + (q.y - point.y) ** 2;
+      if (d < best) best = d;
+    }
+    return Math.sqrt(best);
+  }
+
+  /**
+   * This is the "brain". It takes a single contour, measures it once, and
+   * asks every classifier, the built-in ones first, what shape it is. The
+   * most confident answer wins; if nobody recognizes the contour, it says
+   * which test it failed.
+   */
+  private classifyShape(contour: Contour, metrics: ContourMetrics): UnstyledShape | ClassificationFailure {
+    const features = this.measureContour(contour, metrics);
+
+    let best: ShapeHypothesis | null = null;
+    let custom = false;
+    for (const classifier of [...this.builtInClassifiers, ...this.options.classifiers]) {
+      const hypothesis = classifier.classify(features, this.options);
+      // Ties go to the classifier asked first
+      if (hypothesis && hypothesis.score > 0 && (!best || hypothesis.score > best.score)) {
+        best = hypothesis;
+        custom = !this.builtInClassifiers.includes(classifier);
+      }
+    }
+    if (!best) return this.classificationFailure(features);
+
+    const { score, ...details } = best;
+    const shape: UnstyledShape = {
+      confidence: score,
+      ...metrics,
+      orientedBox: features.orientedBox,
+      orientation: features.orientedBox.angle,
+      ...details,
+      ...(this.options.descriptors && { descriptors: shapeDescriptors(contour, features.moments) }),
+      ...unlinked(),
+    };
+    if (custom) this.customShapes.add(shape);
+    return shape;
+  }
+
+  /** Circles: round, with axes that match, hugging their fitted circle. */
+  private classifyCircle(features: ShapeFeatures): ShapeHypothesis | null {
+    const { circularity, circleFit: fit } = features;
+    const axisRatio = this.axisRatio(features);
+
+    // --- Tuned ---
+    // Defaults to 0.80. This is "round enough" to be a circle.
+    // A regular octagon is round enough too, so the contour also has to
+    // follow its fitted circle closely, beyond what pixel noise explains.
+    // Polygons with more sides hug it as closely as a circle does, but
+    // turn at their corners rather than all the way round.
+    if (
+      !fit ||
+      circularity <= this.options.circularityThreshold ||
+      axisRatio > this.options.maxCircleAxisRatio ||
+      this.excessResidual(fit.residual) > this.options.maxCircleResidual * fit.radius ||
+      features.cornerTurning >= MIN_CORNER_TURNING
+    ) {
+      return null;
+    }
+    // Clear of the octagons when the residual sits well under its limit,
+    // of the ellipses when the axes match, and of the many-sided polygons
+    // when it has no corners.
+    return {
+      type: 'circle',
+      score: Math.min(
+        this.fitConfidence(fit.residual, fit.radius),
+        marginScore(this.excessResidual(fit.residual), this.options.maxCircleResidual * fit.radius, 0),
+        marginScore(axisRatio, this.options.maxCircleAxisRatio, 1),
+        marginScore(features.cornerTurning, MIN_CORNER_TURNING, 0)
+      ),
+      center: fit.center,
+      radius: fit.radius,
+      fitResidual: fit.residual,
+    };
+  }
+
+  /**
+   * Ellipses: too stretched for a circle, but the contour hugs the fitted
+   * ellipse as closely as a circle hugs its circle.
+   */
+  private classifyEllipse(features: ShapeFeatures): ShapeHypothesis | null {
+    const ellipse = features.ellipseFit;
+    const axisRatio = this.axisRatio(features);
+    if (!ellipse || axisRatio <= this.options.maxCircleAxisRatio || axisRatio > this.options.maxAspectRatio) {
+      return null;
+    }
+    const meanRadius = Math.sqrt(ellipse.semiMajor * ellipse.semiMinor);
+    if (ellipse.residual > this.options.maxEllipseResidual * meanRadius) return null;
+
+    // Clearly an ellipse once it is twice as far from round as a circle may be
+    return {
+      type: 'ellipse',
+      score: Math.min(
+        this.fitConfidence(ellipse.residual, meanRadius),
+        marginScore(ellipse.residual, this.options.maxEllipseResidual * meanRadius, 0),
+        marginScore(axisRatio, this.options.maxCircleAxisRatio, 2 * this.options.maxCircleAxisRatio - 1)
+      ),
+      center: ellipse.center,
+      semiMajorAxis: ellipse.semiMajor,
+      semiMinorAxis: ellipse.semiMinor,
+      fitResidual: ellipse.residual,
+      orientation: ellipse.angle,
+    };
+  }
+
+  /**
+   * Stars, with anywhere from 4 to 12 points. Tips and valleys take turns
+   * going round the outline; the finer pass keeps the shallow valleys of
+   * many-pointed stars that 6% cuts off, and the notches in the hull
+   * supply the even shallower ones of fat stars.
+   */
+  private classifyStar(features: ShapeFeatures): ShapeHypothesis | null {
+    const { contour, hull, perimeter, center, solidity, aspectRatio } = features;
+    if (aspectRatio > this.options.maxAspectRatio) return null;
+    if (solidity <= this.options.minStarSolidity || solidity >= this.options.maxStarSolidity) return null;
+
+    const epsilon = this.options.fineSimplifyEpsilon * perimeter;
+    const corners = this.addShallowValleys(contour, hull, this.dropFalseCorners(this.findCorners(contour, epsilon), 0), epsilon);
+    const star = findStar(corners, center, {
+      minPoints: this.options.minStarPoints,
+      maxPoints: this.options.maxStarPoints,
+      maxRadiusRatio: this.options.maxStarRadiusRatio,
+      radiusTolerance: this.options.starRadiusTolerance,
+    });
+    if (!star) return null;
+    return {
+      type: 'star',
+      score: this.starConfidence(contour, star, center),
+      orientation: star.rotation,
+      points: star.points,
+      outerRadius: star.outerRadius,
+      innerRadius: star.innerRadius,
+      vertices: clockwiseFromTop(star.corners),
+    };
+  }
+
+  /** Polygons, named by their final corner count, as long as they're solid. */
+  private classifyPolygon(features: ShapeFeatures): ShapeHypothesis | null {
+    const { contour, perimeter, circularity, solidity, vertices, aspectRatio, circleFit: fit, ellipseFit: ellipse } = features;
+    if (aspectRatio > this.options.maxAspectRatio) return null;
+
+    const numVertices = vertices.length;
+    const minSolidity = this.minSolidity(numVertices);
+    if (numVertices < 3 || solidity <= minSolidity) return null;
+    // A fat star is as solid as a polygon, but its outline dips in to a
+    // valley on every side between the corners found.
+    const epsilon = this.options.fineSimplifyEpsilon * perimeter;
+    if (this.addShallowValleys(contour, features.hull, vertices, epsilon).length === 2 * numVertices) return null;
+
+    let type: DetectedShape['type'];
+    switch (numVertices) {
+      case 3: type = 'triangle'; break;
+      case 4: type = 'rectangle'; break;
+      case 5: type = 'pentagon'; break;
+      default: type = POLYGON_NAMES[numVertices] ?? 'polygon';
+    }
+
+    // A round polygon only lost to the circle on its fit residual or its
+    // corners, and a stretched one to the ellipse on its own residual; the
+    // further past that limit, the clearer it is.
+    const axisRatio = this.axisRatio(features);
+    const circleMargin =
+      fit && circularity > this.options.circularityThreshold && axisRatio <= this.options.maxCircleAxisRatio
+        ? Math.max(
+            marginScore(
+              this.excessResidual(fit.residual),
+              this.options.maxCircleResidual * fit.radius,
+              2 * this.options.maxCircleResidual * fit.radius
+            ),
+            marginScore(features.cornerTurning, MIN_CORNER_TURNING, CLEAR_CORNER_TURNING)
+          )
+        : 1;
+    const meanRadius = ellipse ? Math.sqrt(ellipse.semiMajor * ellipse.semiMinor) : 0;
+    const ellipseMargin =
+      ellipse && axisRatio > this.options.maxCircleAxisRatio
+        ? marginScore(
+            ellipse.residual,
+            this.options.maxEllipseResidual * meanRadius,
+            2 * this.options.maxEllipseResidual * meanRadius
+          )
+        : 1;
+    const subtype = type === 'rectangle'
+      ? classifyQuadrilateral(vertices, this.options.quadrilateralAngleTolerance, this.options.quadrilateralSideTolerance)
+      : undefined;
+    return {
+      type,
+      score: Math.min(
+        this.polygonConfidence(contour, vertices, perimeter, solidity, minSolidity, features.cornerTurning),
+        circleMargin,
+        ellipseMargin
+      ),
+      sides: numVertices,
+      ...(subtype && { subtype }),
+      // With all four sides equal, which one the box lines up with is down
+      // to the pixels, so its angle is only kept within a quarter turn
+      ...((subtype === 'square' || subtype === 'rhombus') && {
+        orientation: normalizeAngle(features.orientedBox.angle, 90),
+      }),
+      vertices: clockwiseFromTop(vertices),
+    };
+  }
+
+  /** How solid a polygon with this many corners has to be. */
+  private minSolidity(numVertices: number): number {
+    switch (numVertices) {
+      case 3: return this.options.minTriangleSolidity;
+      case 4: return this.options.minRectangleSolidity;
+      case 5: return this.options.minPentagonSolidity;
+      default: return this.options.minPolygonSolidity;
+    }
+  }
+
+  /** Long over short axis of the fitted ellipse; 1 if there is none. */
+  private axisRatio(features: ShapeFeatures): number {
+    const ellipse = features.ellipseFit;
+    return ellipse ? ellipse.semiMajor / ellipse.semiMinor : 1;
+  }
+
+  /** The test a contour no classifier recognized failed. */
+  private classificationFailure(features: ShapeFeatures): ClassificationFailure {
+    // --- Tuned ---
+    // Filter out "skinny" shapes. If it's 5x wider than tall (or vice-versa),
+    // it's probably a line or text, not a real shape.
+    if (features.aspectRatio > this.options.maxAspectRatio) return "maxAspectRatio";
+    switch (features.vertices.length) {
+      case 0: case 1: case 2: return "vertexCount";
+      case 3: return "minTriangleSolidity";
+      case 4: return "minRectangleSolidity";
+      case 5: return "minPentagonSolidity";
+      default: return "minPolygonSolidity";
+    }
+  }
+
+  /**
+   * The measurements every classifier decides by, which the `debug` trace
+   * reports too.
+   */
+  private measureContour(contour: Contour, metrics: ContourMetrics): ShapeFeatures {
+    // "Circularity": a perfect circle is 1.0
+    const perimeter = metrics.perimeter;
+    const circularity = perimeter > 0 ? (4 * Math.PI * metrics.area) / (perimeter * perimeter) : 0;
+
+    // "Solidity" compares the area with the convex hull's (or
+    // "shrink-wrap"'s). This tells us if a shape is "solid" (like a
+    // pentagon) or has "holes" (like a star).
+    const hull = this.calculateConvexHull(contour);
+    const hullArea = this.calculateMetrics(hull).area;
+    let solidity = 0;
+    if (hullArea > 0) {
+      solidity = metrics.area / hullArea;
+    }
+
+    const fineEpsilon = this.options.fineSimplifyEpsilon * perimeter;
+    const turning = cornersByTurning(contour, fineEpsilon, this.options.minCornerAngle);
+    const cornerTurning = turning ? turning.sharpness.reduce((sum, turn) => sum + turn, 0) / 360 : 0;
+
+    // Simplify the contour to find its corners (vertices).
+    // --- Tuned ---
+    // Epsilon is our "corner sensitivity". Defaults to 6% of the perimeter.
+    let vertices = this.findCorners(contour, this.options.simplifyEpsilon * perimeter);
+
+    // A solid shape gets a second, finer look. At 6% a hexagon's or
+    // octagon's corners get cut off; at the finer scale they survive, and
+    // any "corner" that hardly turns the outline, or that is one of two
+    // halves of a rounded corner, is dropped again. Triangles are left
+    // alone: no polygon with more sides looks like one at 6%.
+    if (solidity > this.options.minPolygonSolidity && vertices.length > 3) {
+      const fine = this.findCorners(contour, fineEpsilon);
+      vertices = this.dropFalseCorners(fine, this.options.simplifyEpsilon * perimeter);
+      // A regular n-gon's corner stands only π/n² of the perimeter clear of
+      // the line between its neighbours, under the fine tolerance from 13
+      // sides on, and `dropFalseCorners` merges some of its short sides
+      // sooner. Past five sides the outline's turning, which shows every
+      // corner however shallow, gets a say.
+      if (
+        turning &&
+        cornerTurning >= MIN_CORNER_TURNING &&
+        vertices.length > 5 &&
+        turning.corners.length > vertices.length
+      ) {
+        vertices = turning.corners;
+      }
+    }
+
+    const { width, height } = metrics.boundingBox;
+    const aspectRatio = Math.max(width / (height || 1), height / (width || 1));
+    // Fits go through the middle of the edge, not along the side of it the
+    // contour was traced on
+    const edge = this.gradients ? snapToRidge(contour, this.gradients, this.width, this.height) : contour;
+    return {
+      contour,
+      ...metrics,
+      circularity,
+      hull,
+      hullArea,
+      solidity,
+      vertices,
+      cornerTurning,
+      aspectRatio,
+      // The convex hull gives the tightest rotated box around the shape.
+      orientedBox: minAreaRect(hull),
+      moments: contourMoments(contour),
+      circleFit: fitCircle(edge),
+      // An ellipse fit tells a circle from a squashed one by the ratio of its axes
+      ellipseFit: fitEllipse(edge),
+    };
+  }
+
+  /**
+   * Runs `simplifyContour` over a closed contour and drops the last vertex
+   * when it just closes the loop back to the first.
+   */
+  private findCorners(contour: Contour, epsilon: number): Point[] {
+    const vertices = this.simplifyContour(contour, epsilon);
+    // A closed loop (like a triangle) will return [p1, p2, p3, p1].
+    // We need to count this as 3 vertices, not 4.
+    if (vertices.length > 1) {
+      const first = vertices[0];
+      const last = vertices[vertices.length - 1];
+      // Check if the first and last points are basically the same.
+      const dist = Math.sqrt(Math.pow(first.x - last.x, 2) + Math.pow(first.y - last.y, 2));
+      if (dist < this.options.closedLoopTolerance) { // 10px by default
+        return vertices.slice(0, -1); // It's a closed loop, so drop the repeat.
+      }
+    }
+    return vertices;
+  }
+
+  /**
+   * Adds to `corners` the valleys of a fat star, which lie too close to
+   * the line between its tips for the fine pass to keep: between each two
+   * corners, the deepest point of the notches in the convex hull, unless
+   * a corner already lies within `epsilon` of it. Returns the corners in
+   * contour order.
+   */
+  private addShallowValleys(contour: Contour, hull: Contour, corners: Point[], epsilon: number): Point[] {
+    // Corners counted by turning are smoothed points, not the contour's own
+    const indexOf = (corner: Point) => {
+      const own = contour.indexOf(corner);
+      if (own !== -1) return own;
+      const distance = (p: Point) => Math.hypot(p.x - corner.x, p.y - corner.y);
+      let nearest = 0;
+      contour.forEach((p, i) => {
+        if (distance(p) < distance(contour[nearest])) nearest = i;
+      });
+      return nearest;
+    };
+    const indices = corners.map(indexOf).sort((a, b) => a - b);
+    if (indices.length === 0) return corners;
+    // The deepest notch after each corner, keyed by that corner's place in `indices`
+    const deepest = new Map<number, ConvexityDefect>();
+    for (const defect of convexityDefects(contour, hull, MIN_STAR_VALLEY_DEPTH)) {
+      let after = indices.length - 1;
+      while (after > 0 && indices[after] > defect.index) after--;
+      if (indices[after] > defect.index) after = indices.length - 1;
+      const found = deepest.get(after);
+      if (!found || defect.depth > found.depth) deepest.set(after, defect);
+    }
+    for (const { index } of deepest.values()) {
+      const valley = contour[index];
+      if (!corners.some((p) => Math.hypot(p.x - valley.x, p.y - valley.y) < epsilon)) indices.push(index);
+    }
+    return indices.sort((a, b) => a - b).map((i) => contour[i]);
+  }
+
+  /**
+   * Removes corners that the fine pass finds but that aren't real: one of
+   * each pair joined by a side shorter than `minSide` (a rounded corner
+   * split in two), then any where the outline turns by less than
+   * `minCornerAngle`. The flattest go first, and at least 3 always remain.
+   */
+  private dropFalseCorners(vertices: Point[], minSide: number): Point[] {
+    const corners = [...vertices];
+    const turnAt = (i: number) => {
+      const prev = corners[(i + corners.length - 1) % corners.length];
+      const curr = corners[i];
+      const next = corners[(i + 1) % corners.length];
+      const turn = Math.atan2(next.y - curr.y, next.x - curr.x) - Math.atan2(curr.y - prev.y, curr.x - prev.x);
+      return Math.abs(Math.atan2(Math.sin(turn), Math.cos(turn))) * 180 / Math.PI;
+    };
+    const sideAfter = (i: number) => {
+      const next = corners[(i + 1) % corners.length];
+      return Math.hypot(next.x - corners[i].x, next.y - corners[i].y);
+    };
+
+    while (corners.length > 3) {
+      let shortest = 0;
+      for (let i = 1; i < corners.length; i++) {
+        if (sideAfter(i) < sideAfter(shortest)) shortest = i;
+      }
+      if (sideAfter(shortest) >= minSide) break;
+      const other = (shortest + 1) % corners.length;
+      corners.splice(turnAt(shortest) < turnAt(other) ? shortest : other, 1);
+    }
+    while (corners.length > 3) {
+      let flattest = 0;
+      for (let i = 1; i < corners.length; i++) {
+        if (turnAt(i) < turnAt(flattest)) flattest = i;
+      }
+      if (turnAt(flattest) >= this.options.minCornerAngle) break;
+      corners.splice(flattest, 1);
+    }
+    return corners;
+  }
+
+  /**
+   * How much of a fit's RMS residual (px) is left after taking out the
+   * part that tracing on a pixel grid adds to any curve.
+   */
+  private excessResidual(residual: number): number {
+    return Math.sqrt(Math.max(0, residual * residual - PIXEL_NOISE * PIXEL_NOISE));
+  }
+
+  /**
+   * Confidence from how far the contour strays from its fitted circle or
+   * ellipse, relative to the curve's (mean) radius.
+   */
+  private fitConfidence(residual: number, radius: number): number {
+    const relativeResidual = residual / (radius || 1);
+    return Math.max(0, Math.min(1 - relativeResidual / FIT_RESIDUAL_TOLERANCE, 0.99));
+  }
+
+  /**
+   * Confidence in a polygon. An outline straying from its straight sides
+   * by as much as the fine RDP tolerance, beyond pixel noise, has a corner
+   * the polygon missed; its solidity has to clear `minSolidity`; and its
+   * flattest corner has to clear `minCornerAngle`, ideally turning as far
+   * as a regular polygon's. Past five sides, where corners get shallow
+   * enough to miss or invent, the count is only as sure as the corners
+   * are sharp (`cornerTurning`).
+   */
+  private polygonConfidence(
+    contour: Contour,
+    vertices: Point[],
+    perimeter: number,
+    solidity: number,
+    minSolidity: number,
+    cornerTurning: number
+  ): number {
+    const residual = this.excessResidual(polygonResidual(contour, vertices));
+    return Math.min(
+      marginScore(residual, this.options.fineSimplifyEpsilon * perimeter, 0),
+      marginScore(solidity, minSolidity, 1),
+      marginScore(Math.min(...turningAngles(vertices)), this.options.minCornerAngle, 360 / vertices.length),
+      vertices.length > 5 ? marginScore(cornerTurning, MIN_CORNER_TURNING, CLEAR_CORNER_TURNING) : 1,
+      0.99
+    );
+  }
+
+  /**
+   * Confidence in a star: how closely the contour follows the zigzag
+   * through its tips and valleys, how evenly those sit on their radii,
+   * and how far its radius ratio is below `maxStarRadiusRatio`.
+   */
+  private starConfidence(contour: Contour, star: Star, center: Point): number {
+    const middle = (star.outerRadius + star.innerRadius) / 2;
+    let spread = 0;
+    for (const corner of star.corners) {
+      const distance = Math.hypot(corner.x - center.x, corner.y - center.y);
+      const radius = distance > middle ? star.outerRadius : star.innerRadius;
+      spread = Math.max(spread, Math.abs(distance - radius));
+    }
+    const { maxStarRadiusRatio, starRadiusTolerance } = this.options;
+    return Math.min(
+      this.fitConfidence(polygonResidual(contour, star.corners), star.outerRadius),
+      marginScore(spread, starRadiusTolerance * star.outerRadius, 0),
+      marginScore(star.innerRadius / star.outerRadius, maxStarRadiusRatio, maxStarRadiusRatio / 2)
+    );
+  }
+
+  // --- METRIC & GEOMETRY HELPERS ---
+
+  /**
+   * Calculates all the key properties for a contour:
+   * Area, Perimeter, Bounding Box, and Center.
+   */
+  private calculateMetrics(contour: Contour) {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    let area = 0;
+    let perimeter = 0;
+    let sumX = 0, sumY = 0;
+
+    if (contour.length === 0) {
+      return { 
+        area: 0, perimeter: 0, 
+        boundingBox: { x: 0, y: 0, width: 0, height: 0 }, 
+        center: { x: 0, y: 0 } 
+      };
+    }
+
+    for (let i = 0; i < contour.length; i++) {
+      const p1 = contour[i];
+      const p2 = contour[(i + 1) % contour.length]; // Wrap around
+
+      // Find the bounding box
+      if (p1.x < minX) minX = p1.x;
+      if (p1.y < minY) minY = p1.y;
+      if (p1.x > maxX) maxX = p1.x;
+      if (p1.y > maxY) maxY = p1.y;
+
+      // Use the Shoelace formula to find the area
+      area += (p1.x * p2.y - p2.x * p1.y);
+      // Add up the distance between each point for the perimeter
+      perimeter += Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+      // Find the average (X, Y) position for the center
+      sumX += p1.x;
+      sumY += p1.y;
+    }
+
+    area = Math.abs(area / 2.0);
+    const centerX = sumX / contour.length;
+    const centerY = sumY / contour.length;
+
+    return {
+      area: area,
+      perimeter: perimeter,
+      boundingBox: {
+        x: minX,
+        y: minY,
+        width: maxX - minX,
+        height: maxY - minY,
+      },
+      center: { x: centerX, y: centerY },
+    };
+  }
+
+  /**
+   * Simplifies the contour (which has thousands of points) into just
+   * its main corners (vertices) using the Ramer-Douglas-Peucker algorithm.
+   */
+  private simplifyContour(points: Point[], epsilon: number): Point[] {
+    if (points.length < 3) {
+      return points;
+    }
+    // Find the point farthest from the line between start and end
+    let dmax = 0;
+    let index = 0;
+    const end = points.length - 1;
+    for (let i = 1; i < end; i++) {
+      const d = this.perpendicularDistance(points[i], points[0], points[end]);
+      if (d > dmax) {
+        dmax = d;
+        index = i;
+      }
+    }
+    // If that point is "far enough" (epsilon), it's a corner.
+    if (dmax > epsilon) {
+      // Recursively simplify both halves.
+      const recResults1 = this.simplifyContour(points.slice(0, index + 1), epsilon);
+      const recResults2 = this.simplifyContour(points.slice(index), epsilon);
+      // Put the results back together
+      return recResults1.slice(0, recResults1.length - 1).concat(recResults2);
+    } else {
+      // If no point is far enough, the shape is just a straight line.
+      return [points[0], points[end]];
+    }
+  }
+
+  /**
+   * Helper for simplifyContour. Finds distance from a point to a line segment.
+   */
+  private perpendicularDistance(point: Point, lineStart: Point, lineEnd: Point): number {
+    let dx = lineEnd.x - lineStart.x;
+    let dy = lineEnd.y - lineStart.y;
+
+    if (dx === 0 && dy === 0) {
+      dx = point.x - lineStart.x;
+      dy = point.y - lineStart.y;
+      return Math.sqrt(dx * dx + dy * dy);
+    }
+    
+    const lenSq = dx * dx + dy * dy;
+    const t = ((point.x - lineStart.x) * dx + (point.y - lineStart.y) * dy) / lenSq;
+
+    let closestX, closestY;
+    if (t < 0) {
+      closestX = lineStart.x;
+      closestY = lineStart.y;
+    } else if (t > 1) {
+      closestX = lineEnd.x;
+      closestY = lineEnd.y;
+    } else {
+      closestX = lineStart.x + t * dx;
+      closestY = lineStart.y + t * dy;
+    }
+    dx = point.x - closestX;
+    dy = point.y - closestY;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  /**
+   * Helper for solidity check. Calculates the cross product of three points.
+   */
+  private crossProduct(o: Point, a: Point, b: Point): number {
+    return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  }
+
+  /**
+   * Calculates the "convex hull" (or "shrink-wrap") of a shape.
+   * We use this to tell a star from a pentagon.
+   */
+  private calculateConvexHull(points: Point[]): Contour {
+    if (points.length <= 3) {
+      return [...points];
+    }
+    // Sort points by X-coordinate
+    const sortedPoints = [...points].sort((a, b) => 
+      a.x !== b.x ? a.x - b.x : a.y - b.y
+    );
+    const upper: Contour = [];
+    const lower: Contour = [];
+    // Build lower hull
+    for (const p of sortedPoints) {
+      while (
+        lower.length >= 2 &&
+        this.crossProduct(lower[lower.length - 2], lower[lower.length - 1], p) <= 0
+      ) {
+        lower.pop();
+      }
+      lower.push(p);
+    }
+    // Build upper hull
+    for (let i = sortedPoints.length - 1; i >= 0; i--) {
+      const p = sortedPoints[i];
+      while (
+        upper.length >= 2 &&
+        this.crossProduct(upper[upper.length - 2], upper[upper.length - 1], p) <= 0
+      ) {
+        upper.pop();
+      }
+      upper.push(p);
+    }
+    upper.pop();
+    lower.pop();
+    return lower.concat(upper);
+  }
+} // End of ShapeDetectorCore class
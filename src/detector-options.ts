@@ -0,0 +1,439 @@
+import type { ShapeClassifier } from "./classifier.js";
+import type { Morphology } from "./morphology.js";
+import type { Foreground, ThresholdMethod } from "./segmentation.js";
+import type { ShapeTemplate } from "./template-matching.js";
+
+// --- DETECTOR OPTIONS ---
+/**
+ * Every tunable threshold in the detection pipeline.
+ * The defaults are the values tuned against the bundled test images;
+ * change them when your images look different.
+ */
+export interface DetectorOptions {
+  /**
+   * Where contours come from. "edges" traces the edge map; "regions"
+   * thresholds the image, labels connected blobs and walks each blob's
+   * outline, which survives gaps in an outline. Default "edges".
+   */
+  contourSource: ContourSource;
+  /**
+   * How the edge map is built. "sobel" thresholds the raw Sobel magnitude;
+   * "canny" smooths first, thins edges to one pixel and links them with
+   * hysteresis. Default "sobel".
+   */
+  edgeMode: EdgeMode;
+  /**
+   * What edges and regions are found in. "grayscale" only sees differences
+   * in brightness; "color" works in CIE L*a*b*, so shapes that differ from
+   * each other or the background only in hue still get an outline. In
+   * region mode it thresholds each pixel's color distance from the
+   * background, and `foreground` no longer applies. Default "grayscale".
+   */
+  colorMode: ColorMode;
+  /**
+   * Preprocessing: radius (px) of the median filter run over the image
+   * before edges or regions are found, which removes speckle noise.
+   * 0 skips it. Default 0.
+   */
+  medianRadius: number;
+  /**
+   * Preprocessing: standard deviation (px) of a Gaussian blur run after
+   * the median filter. 0 skips it. Default 0.
+   */
+  blurSigma: number;
+  /** Sobel gradient magnitude above which a pixel counts as an edge. Default 128. */
+  sobelThreshold: number;
+  /** Canny: standard deviation (px) of the Gaussian smoothing. Default 1.0. */
+  cannySigma: number;
+  /** Canny: magnitude a weak edge pixel needs to join a strong edge. Default 20. */
+  cannyLowThreshold: number;
+  /** Canny: magnitude above which a pixel is a strong edge. Default 50. */
+  cannyHighThreshold: number;
+  /** Regions: "otsu" picks one global threshold, "adaptive" compares each pixel to its neighborhood. Default "otsu". */
+  thresholdMethod: ThresholdMethod;
+  /** Regions: whether shapes are "dark" or "light", or "auto" to infer it from the image border. Default "auto". */
+  foreground: Foreground;
+  /** Regions, adaptive: width (px) of the window the local mean is taken over. Default 31. */
+  adaptiveBlockSize: number;
+  /** Regions, adaptive: how far (gray levels) past the local mean counts as foreground. Default 10. */
+  adaptiveOffset: number;
+  /**
+   * Preprocessing: a morphological operation on the binary edge map (or
+   * region mask) before contours are traced. "open" removes specks,
+   * "close" bridges gaps, "dilate" and "erode" grow or shrink what is set.
+   * Default "none".
+   */
+  morphology: Morphology;
+  /** Preprocessing: radius (px) of the square `morphology` works with. Default 1. */
+  morphologyRadius: number;
+  /** Traced contours with this many points or fewer are dropped as noise. Default 30. */
+  minContourLength: number;
+  /** Contours with a smaller enclosed area (px²) are dropped as noise. Default 50. */
+  minArea: number;
+  /**
+   * A contour nested inside another that stays within this distance (px) of
+   * it all the way round is the inner edge of the same stroke, not a shape
+   * of its own. Default 15.
+   */
+  innerContourDistance: number;
+  /**
+   * A notch in an outline deeper than this fraction of √area marks where
+   * two touching or overlapping shapes meet, and the blob is split there.
+   * Default 0.1.
+   */
+  minDefectDepth: number;
+  /** How many times over a blob may be split, for chains of shapes; 0 never splits. Default 3. */
+  maxSplitDepth: number;
+  /** Circularity (4π·area / perimeter²) above which a contour is a circle. Default 0.80. */
+  circularityThreshold: number;
+  /**
+   * RMS distance from a round contour to its fitted circle, beyond pixel
+   * noise, as a fraction of the radius, up to which it is a circle.
+   * Regular polygons up to about 10 sides stray further. Default 0.01.
+   */
+  maxCircleResidual: number;
+  /** Contours whose fitted ellipse is more stretched than this (major / minor axis) aren't circles. Default 1.1. */
+  maxCircleAxisRatio: number;
+  /**
+   * RMS distance from a contour to its fitted ellipse, as a fraction of the
+   * ellipse's mean radius, up to which it counts as an ellipse. Default 0.02.
+   */
+  maxEllipseResidual: number;
+  /** RDP simplification tolerance, as a fraction of the contour perimeter. Default 0.06. */
+  simplifyEpsilon: number;
+  /** Finer RDP tolerance used to recount the corners of solid shapes, as a fraction of the perimeter. Default 0.02. */
+  fineSimplifyEpsilon: number;
+  /** Corners where the outline turns by fewer degrees than this are dropped in the fine recount. Default 20. */
+  minCornerAngle: number;
+  /** Contours whose bounding box is more elongated than this are lines or text. Default 5.0. */
+  maxAspectRatio: number;
+  /** First and last simplified vertices closer than this (px) close the loop. Default 10. */
+  closedLoopTolerance: number;
+  /** Minimum solidity (area / convex hull area) for a triangle. Default 0.9. */
+  minTriangleSolidity: number;
+  /** Minimum solidity for a rectangle. Default 0.9. */
+  minRectangleSolidity: number;
+  /** Rectangles: sides within this many degrees of parallel (or corners of 90°) count as such when naming the `subtype`. Default 6. */
+  quadrilateralAngleTolerance: number;
+  /** Rectangles: sides within this fraction of the longest one count as equal when naming the `subtype`. Default 0.1. */
+  quadrilateralSideTolerance: number;
+  /** Minimum solidity for a pentagon. Default 0.8. */
+  minPentagonSolidity: number;
+  /** Minimum solidity for a hexagon, heptagon, octagon or larger polygon, and for the fine corner recount. Default 0.9. */
+  minPolygonSolidity: number;
+  /** Minimum solidity for a star. Default 0.3. */
+  minStarSolidity: number;
+  /** Maximum solidity for a star. Default 1 (no limit: a fat star's valleys are shallow enough to fill its hull almost completely). */
+  maxStarSolidity: number;
+  /** Fewest tips a star can have. Default 4. */
+  minStarPoints: number;
+  /** Most tips a star can have. Default 12. */
+  maxStarPoints: number;
+  /** Largest inner / outer radius for a star. Default 0.8. */
+  maxStarRadiusRatio: number;
+  /** How far a star's tips and valleys may each stray from their mean radius, as a fraction of the outer radius. Default 0.2. */
+  starRadiusTolerance: number;
+  /**
+   * Optional Hough passes run over the edge map next to contour tracing:
+   * "circles" finds circles whose outline is broken or partly hidden,
+   * "lines" finds straight line segments (reported as type "line"), and
+   * "both" runs the two. Default "none".
+   */
+  hough: HoughMode;
+  /** Hough circles: smallest radius (px) looked for. Default 10. */
+  houghMinRadius: number;
+  /** Hough circles: largest radius (px) looked for. Default 200. */
+  houghMaxRadius: number;
+  /** Hough circles: fraction of the circumference that needs edge pixels on it. Default 0.6. */
+  houghCircleSupport: number;
+  /** Hough lines: votes a line needs before it is followed through the edge map. Default 40. */
+  houghLineVotes: number;
+  /** Hough lines: shortest segment (px) reported. Default 40. */
+  houghMinLineLength: number;
+  /** Hough lines: longest gap (px) in a segment's edge pixels that it still bridges. Default 5. */
+  houghMaxLineGap: number;
+  /**
+   * Colors closer than this (Euclidean distance in RGB) count as the same
+   * when sampling a shape's fill and stroke. Default 40.
+   */
+  colorTolerance: number;
+  /**
+   * Classifiers to ask about every contour on top of the built-in ones,
+   * for shapes of your own. The highest-scoring hypothesis wins. They are
+   * functions, so `ShapeDetector` runs detection with them on the main
+   * thread rather than in its worker. Default none.
+   */
+  classifiers: readonly ShapeClassifier[];
+  /**
+   * Reference shapes to look for (see `templateFromContour`). Every
+   * contour is compared with each of them, and one similar enough becomes
+   * a "custom" shape with the template's label, whatever the built-in
+   * classifiers make of it. Default none.
+   */
+  templates: readonly ShapeTemplate[];
+  /**
+   * How contours are compared with the templates. "fourier" compares
+   * their Fourier descriptors; "hu" their Hu moments, which tell shapes
+   * apart less well. Default "fourier".
+   */
+  matchMethod: MatchMethod;
+  /** How similar (0 to 1) a contour must be to a template to match it. Default 0.75. */
+  minTemplateSimilarity: number;
+  /**
+   * Also give every shape its `descriptors`: moments, Hu moments and
+   * Fourier descriptors, for comparing shapes. Default false.
+   */
+  descriptors: boolean;
+  /**
+   * Also return `candidates` in the result: every traced border with its
+   * features and the rule that kept or dropped it. Default false.
+   */
+  debug: boolean;
+}
+
+export type ContourSource = "edges" | "regions";
+export type EdgeMode = "sobel" | "canny";
+export type ColorMode = "grayscale" | "color";
+export type HoughMode = "none" | "circles" | "lines" | "both";
+export type MatchMethod = "fourier" | "hu";
+
+export const DEFAULT_DETECTOR_OPTIONS: Readonly<DetectorOptions> = Object.freeze({
+  contourSource: "edges",
+  edgeMode: "sobel",
+  colorMode: "grayscale",
+  medianRadius: 0,
+  blurSigma: 0,
+  sobelThreshold: 128,
+  cannySigma: 1.0,
+  cannyLowThreshold: 20,
+  cannyHighThreshold: 50,
+  thresholdMethod: "otsu",
+  foreground: "auto",
+  adaptiveBlockSize: 31,
+  adaptiveOffset: 10,
+  morphology: "none",
+  morphologyRadius: 1,
+  minContourLength: 30,
+  minArea: 50,
+  innerContourDistance: 15,
+  minDefectDepth: 0.1,
+  maxSplitDepth: 3,
+  circularityThreshold: 0.8,
+  maxCircleResidual: 0.01,
+  maxCircleAxisRatio: 1.1,
+  maxEllipseResidual: 0.02,
+  simplifyEpsilon: 0.06,
+  fineSimplifyEpsilon: 0.02,
+  minCornerAngle: 20,
+  maxAspectRatio: 5.0,
+  closedLoopTolerance: 10,
+  minTriangleSolidity: 0.9,
+  minRectangleSolidity: 0.9,
+  quadrilateralAngleTolerance: 6,
+  quadrilateralSideTolerance: 0.1,
+  minPentagonSolidity: 0.8,
+  minPolygonSolidity: 0.9,
+  minStarSolidity: 0.3,
+  maxStarSolidity: 1,
+  minStarPoints: 4,
+  maxStarPoints: 12,
+  maxStarRadiusRatio: 0.8,
+  starRadiusTolerance: 0.2,
+  hough: "none",
+  houghMinRadius: 10,
+  houghMaxRadius: 200,
+  houghCircleSupport: 0.6,
+  houghLineVotes: 40,
+  houghMinLineLength: 40,
+  houghMaxLineGap: 5,
+  colorTolerance: 40,
+  classifiers: [],
+  templates: [],
+  matchMethod: "fourier",
+  minTemplateSimilarity: 0.75,
+  descriptors: false,
+  debug: false,
+});
+
+type NumericOption = {
+  [K in keyof DetectorOptions]: DetectorOptions[K] extends number ? K : never;
+}[keyof DetectorOptions];
+type FlagOption = {
+  [K in keyof DetectorOptions]: DetectorOptions[K] extends boolean ? K : never;
+}[keyof DetectorOptions];
+type ChoiceOption = Exclude<keyof DetectorOptions, NumericOption | FlagOption | "classifiers" | "templates">;
+
+/**
+ * The allowed [min, max] range for each numeric option (both ends inclusive).
+ */
+const OPTION_RANGES: Record<NumericOption, [number, number]> = {
+  medianRadius: [0, 10],
+  blurSigma: [0, 10],
+  sobelThreshold: [0, Infinity],
+  cannySigma: [0, 10],
+  cannyLowThreshold: [0, Infinity],
+  cannyHighThreshold: [0, Infinity],
+  adaptiveBlockSize: [3, 1001],
+  adaptiveOffset: [0, 255],
+  morphologyRadius: [1, 10],
+  minContourLength: [0, Infinity],
+  minArea: [0, Infinity],
+  innerContourDistance: [0, Infinity],
+  minDefectDepth: [0, 1],
+  maxSplitDepth: [0, 10],
+  circularityThreshold: [0, 1],
+  maxCircleResidual: [0, 1],
+  maxCircleAxisRatio: [1, Infinity],
+  maxEllipseResidual: [0, 1],
+  simplifyEpsilon: [0, 1],
+  fineSimplifyEpsilon: [0, 1],
+  minCornerAngle: [0, 180],
+  maxAspectRatio: [1, Infinity],
+  closedLoopTolerance: [0, Infinity],
+  minTriangleSolidity: [0, 1],
+  minRectangleSolidity: [0, 1],
+  quadrilateralAngleTolerance: [0, 45],
+  quadrilateralSideTolerance: [0, 1],
+  minPentagonSolidity: [0, 1],
+  minPolygonSolidity: [0, 1],
+  minStarSolidity: [0, 1],
+  maxStarSolidity: [0, 1],
+  minStarPoints: [3, Infinity],
+  maxStarPoints: [3, Infinity],
+  maxStarRadiusRatio: [0, 1],
+  starRadiusTolerance: [0, 1],
+  houghMinRadius: [1, Infinity],
+  houghMaxRadius: [1, Infinity],
+  houghCircleSupport: [0, 1],
+  houghLineVotes: [1, Infinity],
+  houghMinLineLength: [1, Infinity],
+  houghMaxLineGap: [0, Infinity],
+  colorTolerance: [0, 442],
+  minTemplateSimilarity: [0, 1],
+};
+
+/**
+ * The allowed values for each option that picks between named modes.
+ */
+const OPTION_CHOICES: Record<ChoiceOption, readonly string[]> = {
+  contourSource: ["edges", "regions"],
+  edgeMode: ["sobel", "canny"],
+  colorMode: ["grayscale", "color"],
+  thresholdMethod: ["otsu", "adaptive"],
+  foreground: ["auto", "dark", "light"],
+  morphology: ["none", "open", "close", "dilate", "erode"],
+  hough: ["none", "circles", "lines", "both"],
+  matchMethod: ["fourier", "hu"],
+};
+
+/**
+ * The options that are switched on or off.
+ */
+const OPTION_FLAGS: readonly FlagOption[] = ["descriptors", "debug"];
+
+/**
+ * Merges option overrides on top of the defaults, left to right,
+ * and checks that every value is allowed.
+ * Throws a `TypeError` for unknown keys or values of the wrong type and a
+ * `RangeError` for out-of-range values or inconsistent pairs.
+ */
+export function resolveDetectorOptions(
+  ...overrides: (Partial<DetectorOptions> | undefined)[]
+): DetectorOptions {
+  const options: Record<string, unknown> = { ...DEFAULT_DETECTOR_OPTIONS };
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const [key, value] of Object.entries(override)) {
+      if (value === undefined) continue;
+      if (key in OPTION_RANGES) {
+        checkNumber(key as NumericOption, value);
+      } else if (key in OPTION_CHOICES) {
+        checkChoice(key as ChoiceOption, value);
+      } else if ((OPTION_FLAGS as readonly string[]).includes(key)) {
+        checkFlag(key as FlagOption, value);
+      } else if (key === "classifiers") {
+        checkClassifiers(value);
+      } else if (key === "templates") {
+        checkTemplates(value);
+      } else {
+        throw new TypeError(`Unknown detector option "${key}"`);
+      }
+      options[key] = value;
+    }
+  }
+  const resolved = options as unknown as DetectorOptions;
+  if (resolved.cannyLowThreshold > resolved.cannyHighThreshold) {
+    throw new RangeError(
+      `Detector option "cannyLowThreshold" (${resolved.cannyLowThreshold}) must not exceed "cannyHighThreshold" (${resolved.cannyHighThreshold})`
+    );
+  }
+  if (resolved.houghMinRadius > resolved.houghMaxRadius) {
+    throw new RangeError(
+      `Detector option "houghMinRadius" (${resolved.houghMinRadius}) must not exceed "houghMaxRadius" (${resolved.houghMaxRadius})`
+    );
+  }
+  if (resolved.minStarPoints > resolved.maxStarPoints) {
+    throw new RangeError(
+      `Detector option "minStarPoints" (${resolved.minStarPoints}) must not exceed "maxStarPoints" (${resolved.maxStarPoints})`
+    );
+  }
+  if (resolved.minStarSolidity >= resolved.maxStarSolidity) {
+    throw new RangeError(
+      `Detector option "minStarSolidity" (${resolved.minStarSolidity}) must be less than "maxStarSolidity" (${resolved.maxStarSolidity})`
+    );
+  }
+  return resolved;
+}
+
+function checkNumber(name: NumericOption, value: unknown): void {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new TypeError(`Detector option "${name}" must be a number, got ${value}`);
+  }
+  const [min, max] = OPTION_RANGES[name];
+  if (value < min || value > max) {
+    throw new RangeError(
+      `Detector option "${name}" must be between ${min} and ${max}, got ${value}`
+    );
+  }
+}
+
+function checkChoice(name: ChoiceOption, value: unknown): void {
+  const choices = OPTION_CHOICES[name];
+  if (typeof value !== "string" || !choices.includes(value)) {
+    throw new TypeError(
+      `Detector option "${name}" must be one of ${choices.map((c) => `"${c}"`).join(", ")}, got ${value}`
+    );
+  }
+}
+
+function checkFlag(name: FlagOption, value: unknown): void {
+  if (typeof value !== "boolean") {
+    throw new TypeError(`Detector option "${name}" must be true or false, got ${value}`);
+  }
+}
+
+function checkClassifiers(value: unknown): void {
+  const valid = (c: unknown) =>
+    typeof c === "object" && c !== null &&
+    typeof (c as ShapeClassifier).name === "string" &&
+    typeof (c as ShapeClassifier).classify === "function";
+  if (!Array.isArray(value) || !value.every(valid)) {
+    throw new TypeError(
+      `Detector option "classifiers" must be a list of { name, classify } objects, got ${value}`
+    );
+  }
+}
+
+function checkTemplates(value: unknown): void {
+  const numbers = (list: unknown) => Array.isArray(list) && list.every((n) => typeof n === "number");
+  const valid = (t: unknown) =>
+    typeof t === "object" && t !== null &&
+    typeof (t as ShapeTemplate).label === "string" &&
+    numbers((t as ShapeTemplate).huMoments) &&
+    numbers((t as ShapeTemplate).fourier);
+  if (!Array.isArray(value) || !value.every(valid)) {
+    throw new TypeError(
+      `Detector option "templates" must be a list of { label, huMoments, fourier } objects, got ${value}`
+    );
+  }
+}
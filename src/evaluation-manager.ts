@@ -1,6 +1,6 @@
 
 
-import type { ShapeDetector } from "./main.js";
+import type { DetectorOptions, ShapeDetector } from "./main.js";
 import { ModalManager } from "./ui-utils.js";
 
 export class EvaluationManager {
@@ -18,7 +18,10 @@ export class EvaluationManager {
     this.evaluationResultsDiv = evaluationResultsDiv;
   }
 
-  async runSelectedEvaluation(selectedImages: string[]): Promise<void> {
+  async runSelectedEvaluation(
+    selectedImages: string[],
+    overrides: Partial<DetectorOptions> = {}
+  ): Promise<void> {
     if (selectedImages.length === 0) {
       alert(
         "Please select at least one image for evaluation (right-click to select)"
@@ -33,7 +36,8 @@ export class EvaluationManager {
       const evaluationModule = await import("./evaluation.js");
       const results = await evaluationModule.runSelectedEvaluation(
         this.detector,
-        selectedImages
+        selectedImages,
+        overrides
       );
 
       ModalManager.showEvaluationModal(results);
@@ -48,14 +52,19 @@ export class EvaluationManager {
     }
   }
 
-  async runFullEvaluation(): Promise<void> {
+  async runFullEvaluation(
+    overrides: Partial<DetectorOptions> = {}
+  ): Promise<void> {
     try {
       this.evaluateButton.disabled = true;
       this.evaluationResultsDiv.innerHTML =
         "<p>Running comprehensive evaluation...</p>";
 
       const evaluationModule = await import("./evaluation.js");
-      const results = await evaluationModule.runEvaluation(this.detector);
+      const results = await evaluationModule.runEvaluation(
+        this.detector,
+        overrides
+      );
 
       evaluationModule.displayEvaluationResults(
         results,
@@ -1,3 +1,5 @@
+import { angleDifference, rotatedBoxIoU, vertexError } from "./geometry.js";
+import type { OrientedBox } from "./geometry.js";
 
 export interface GroundTruthShape {
   type: string;
@@ -7,6 +9,25 @@ export interface GroundTruthShape {
   confidence_expected?: number;
   vertices?: { x: number; y: number }[];
   radius?: number;
+  /**
+   * Clockwise rotation in degrees. For ellipses it is the major axis's
+   * direction, for stars a tip's direction from straight up; for other
+   * shapes it turns `bounding_box` about `center`.
+   */
+  rotation_degrees?: number;
+  /** Ellipses: the semi-axes. `bounding_box` is the axis-aligned box around the rotated ellipse. */
+  semi_major_axis?: number;
+  semi_minor_axis?: number;
+  /** Stars: the number of tips (half the `vertices` if left out), and the tip and valley radii. */
+  points?: number;
+  outer_radius?: number;
+  inner_radius?: number;
+  /** Polygons: the number of sides. */
+  sides?: number;
+  /** Rectangles: the kind of quadrilateral ("square", "rhombus", "trapezoid", ...). */
+  subtype?: string;
+  /** Lines: the two ends, in either order. */
+  endpoints?: { x: number; y: number }[];
   [key: string]: any;
 }
 
@@ -19,6 +40,87 @@ export interface EvaluationMetrics {
   area_accuracy: number;
   confidence_calibration: number;
   processing_time: number;
+  /**
+   * With `rotatedBoxes` on, the mean rotated-box IoU and orientation error
+   * (degrees) over matches whose ground truth has `rotation_degrees`.
+   * Left out when there are none.
+   */
+  average_rotated_iou?: number;
+  angle_error?: number;
+  /**
+   * Mean distance (px) between detected and ground truth vertices, over
+   * matches where both have the same number of vertices. Left out when
+   * there are none.
+   */
+  vertex_error?: number;
+  /** Mean radius error (px) over matched circles. Left out when there are none. */
+  radius_error?: number;
+  /** Mean semi-axis error (px) over matched ellipses. Left out when there are none. */
+  axis_error?: number;
+  /**
+   * Over matched stars: the fraction with the right number of points, the
+   * mean error (px) of the outer and inner radii, and the mean rotation
+   * error (degrees) where the ground truth has `rotation_degrees`.
+   * Each is left out when there are none.
+   */
+  star_points_accuracy?: number;
+  star_radius_error?: number;
+  star_angle_error?: number;
+  /**
+   * Fraction of matched shapes whose ground truth has a `subtype` that
+   * were given the same one. Left out when there are none.
+   */
+  subtype_accuracy?: number;
+  /**
+   * Fraction of matched shapes whose ground truth has `sides` that were
+   * found with that many. Left out when there are none.
+   */
+  sides_accuracy?: number;
+  /**
+   * Mean distance (px) between detected and ground truth line ends, over
+   * matched lines whose ground truth has `endpoints`. Left out when there
+   * are none.
+   */
+  endpoint_error?: number;
+  /**
+   * Each detection's confidence and whether it matched a ground truth
+   * shape, for `calibrationReport`. Left out when nothing was detected.
+   */
+  confidence_outcomes?: ConfidenceOutcome[];
+}
+
+export interface ConfidenceOutcome {
+  confidence: number;
+  correct: boolean;
+}
+
+/** One bar of a reliability diagram: the detections with confidence in [lower, upper). */
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  /** Mean confidence of the detections in the bin; 0 when it is empty. */
+  mean_confidence: number;
+  /** Fraction of them that matched; 0 when it is empty. */
+  accuracy: number;
+}
+
+export interface CalibrationReport {
+  bins: ReliabilityBin[];
+  /**
+   * Mean gap between confidence and accuracy over the bins, weighted by
+   * their counts: 0 when confidence reads as the chance of being right.
+   */
+  expected_calibration_error: number;
+  count: number;
+}
+
+export interface EvaluationOptions {
+  /**
+   * Also score each match's `orientedBox` and `orientation` against ground
+   * truth shapes that have a `rotation_degrees`.
+   */
+  rotatedBoxes?: boolean;
 }
 
 
@@ -42,7 +144,37 @@ export function calculateDistance(p1: { x: number; y: number }, p2: { x: number;
 }
 
 
-export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape[], imageName: string): EvaluationMetrics {
+/**
+ * The ground truth box as an oriented box. `bounding_box` holds the unrotated
+ * size, turned by `rotation_degrees` (if any) about the shape's center.
+ * An ellipse's box comes from its axes instead.
+ */
+export function groundTruthOrientedBox(gtShape: GroundTruthShape): OrientedBox | null {
+  const box = gtShape.bounding_box;
+  if (gtShape.semi_major_axis && gtShape.semi_minor_axis && (gtShape.center || box)) {
+    return {
+      center: gtShape.center ?? { x: box!.x + box!.width / 2, y: box!.y + box!.height / 2 },
+      width: gtShape.semi_major_axis * 2,
+      height: gtShape.semi_minor_axis * 2,
+      angle: gtShape.rotation_degrees ?? 0,
+    };
+  }
+  if (!box) return null;
+  return {
+    center: gtShape.center ?? { x: box.x + box.width / 2, y: box.y + box.height / 2 },
+    width: box.width,
+    height: box.height,
+    angle: gtShape.rotation_degrees ?? 0,
+  };
+}
+
+
+export function evaluateDetection(
+  detected: any[],
+  groundTruth: GroundTruthShape[],
+  imageName: string,
+  options: EvaluationOptions = {}
+): EvaluationMetrics {
   const iouThreshold = 0.5;
   const centerThreshold = 10; 
   const areaThreshold = 0.15; 
@@ -52,8 +184,30 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
   let totalCenterDistance = 0;
   let totalAreaError = 0;
   let confidenceErrors = 0;
+  let totalRotatedIoU = 0;
+  let totalAngleError = 0;
+  let rotatedMatches = 0;
+  let totalVertexError = 0;
+  let vertexMatches = 0;
+  let totalRadiusError = 0;
+  let radiusMatches = 0;
+  let totalAxisError = 0;
+  let axisMatches = 0;
+  let starPointsCorrect = 0;
+  let starPointMatches = 0;
+  let totalStarRadiusError = 0;
+  let starRadiusMatches = 0;
+  let totalStarAngleError = 0;
+  let starAngleMatches = 0;
+  let subtypesCorrect = 0;
+  let subtypeMatches = 0;
+  let sidesCorrect = 0;
+  let sidesMatches = 0;
+  let totalEndpointError = 0;
+  let endpointMatches = 0;
   
   const matched = new Set();
+  const outcomes: ConfidenceOutcome[] = [];
   
   for (const detectedShape of detected) {
     let bestMatch = null;
@@ -74,6 +228,8 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
       }
     }
     
+    outcomes.push({ confidence: detectedShape.confidence, correct: bestMatch !== null });
+
     if (bestMatch) {
       matched.add(bestIndex);
       truePositives++;
@@ -93,6 +249,81 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
         const confError = Math.abs(detectedShape.confidence - bestMatch.confidence_expected);
         confidenceErrors += confError;
       }
+
+      if (bestMatch.radius && detectedShape.radius) {
+        totalRadiusError += Math.abs(detectedShape.radius - bestMatch.radius);
+        radiusMatches++;
+      }
+
+      if (bestMatch.semi_major_axis && bestMatch.semi_minor_axis &&
+          detectedShape.semiMajorAxis && detectedShape.semiMinorAxis) {
+        totalAxisError +=
+          (Math.abs(detectedShape.semiMajorAxis - bestMatch.semi_major_axis) +
+            Math.abs(detectedShape.semiMinorAxis - bestMatch.semi_minor_axis)) / 2;
+        axisMatches++;
+      }
+
+      if (bestMatch.type === "star" && detectedShape.points) {
+        const gtPoints = bestMatch.points ?? (bestMatch.vertices ? bestMatch.vertices.length / 2 : undefined);
+        if (gtPoints) {
+          if (detectedShape.points === gtPoints) starPointsCorrect++;
+          starPointMatches++;
+        }
+        if (bestMatch.outer_radius && bestMatch.inner_radius) {
+          totalStarRadiusError +=
+            (Math.abs(detectedShape.outerRadius - bestMatch.outer_radius) +
+              Math.abs(detectedShape.innerRadius - bestMatch.inner_radius)) / 2;
+          starRadiusMatches++;
+        }
+        if (bestMatch.rotation_degrees !== undefined) {
+          // A star looks the same turned by one tip.
+          totalStarAngleError += angleDifference(
+            detectedShape.orientation,
+            bestMatch.rotation_degrees,
+            360 / detectedShape.points
+          );
+          starAngleMatches++;
+        }
+      }
+
+      if (bestMatch.subtype) {
+        if (detectedShape.subtype === bestMatch.subtype) subtypesCorrect++;
+        subtypeMatches++;
+      }
+
+      if (bestMatch.sides) {
+        if (detectedShape.sides === bestMatch.sides) sidesCorrect++;
+        sidesMatches++;
+      }
+
+      if (bestMatch.endpoints && detectedShape.endpoints) {
+        const error = vertexError(detectedShape.endpoints, bestMatch.endpoints);
+        if (error !== null) {
+          totalEndpointError += error;
+          endpointMatches++;
+        }
+      }
+
+      if (bestMatch.vertices && detectedShape.vertices) {
+        const error = vertexError(detectedShape.vertices, bestMatch.vertices);
+        if (error !== null) {
+          totalVertexError += error;
+          vertexMatches++;
+        }
+      }
+
+      // Only rotated ground truth says which way a shape faces; for the
+      // rest the axis-aligned IoU above already covers the fit.
+      const gtBox = groundTruthOrientedBox(bestMatch);
+      if (options.rotatedBoxes && gtBox && bestMatch.rotation_degrees !== undefined &&
+          bestMatch.type !== "star" && detectedShape.orientedBox) {
+        totalRotatedIoU += rotatedBoxIoU(detectedShape.orientedBox, gtBox);
+        // `orientation` follows the longer side; a square looks the same every 90°.
+        const gtAngle = gtBox.angle + (gtBox.width < gtBox.height ? 90 : 0);
+        const period = gtBox.width === gtBox.height ? 90 : 180;
+        totalAngleError += angleDifference(detectedShape.orientation, gtAngle, period);
+        rotatedMatches++;
+      }
     }
   }
   
@@ -108,6 +339,52 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
     center_point_accuracy: truePositives > 0 ? totalCenterDistance / truePositives : 0,
     area_accuracy: truePositives > 0 ? 1 - (totalAreaError / truePositives) : 0,
     confidence_calibration: truePositives > 0 ? 1 - (confidenceErrors / truePositives) : 0,
-    processing_time: 0 
+    processing_time: 0,
+    ...(rotatedMatches > 0 && {
+      average_rotated_iou: totalRotatedIoU / rotatedMatches,
+      angle_error: totalAngleError / rotatedMatches,
+    }),
+    ...(vertexMatches > 0 && { vertex_error: totalVertexError / vertexMatches }),
+    ...(radiusMatches > 0 && { radius_error: totalRadiusError / radiusMatches }),
+    ...(axisMatches > 0 && { axis_error: totalAxisError / axisMatches }),
+    ...(starPointMatches > 0 && { star_points_accuracy: starPointsCorrect / starPointMatches }),
+    ...(starRadiusMatches > 0 && { star_radius_error: totalStarRadiusError / starRadiusMatches }),
+    ...(starAngleMatches > 0 && { star_angle_error: totalStarAngleError / starAngleMatches }),
+    ...(subtypeMatches > 0 && { subtype_accuracy: subtypesCorrect / subtypeMatches }),
+    ...(sidesMatches > 0 && { sides_accuracy: sidesCorrect / sidesMatches }),
+    ...(endpointMatches > 0 && { endpoint_error: totalEndpointError / endpointMatches }),
+    ...(outcomes.length > 0 && { confidence_outcomes: outcomes }),
+  };
+}
+
+/**
+ * Reliability diagram data for a set of detections: their confidences
+ * split into `binCount` equal bins over [0, 1], each with how often its
+ * detections were right. Pool the `confidence_outcomes` of several
+ * images for bins worth reading.
+ */
+export function calibrationReport(outcomes: ConfidenceOutcome[], binCount: number = 10): CalibrationReport {
+  const bins: ReliabilityBin[] = [];
+  for (let b = 0; b < binCount; b++) {
+    bins.push({ lower: b / binCount, upper: (b + 1) / binCount, count: 0, mean_confidence: 0, accuracy: 0 });
+  }
+  for (const { confidence, correct } of outcomes) {
+    const bin = bins[Math.max(0, Math.min(Math.floor(confidence * binCount), binCount - 1))];
+    bin.count++;
+    bin.mean_confidence += confidence;
+    if (correct) bin.accuracy++;
+  }
+
+  let gap = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.mean_confidence /= bin.count;
+    bin.accuracy /= bin.count;
+    gap += bin.count * Math.abs(bin.mean_confidence - bin.accuracy);
+  }
+  return {
+    bins,
+    expected_calibration_error: outcomes.length > 0 ? gap / outcomes.length : 0,
+    count: outcomes.length,
   };
 }
@@ -1,7 +1,7 @@
-import type { DetectionResult } from "./main.js";
+import type { DetectionResult, DetectorOptions } from "./main.js";
 import { ShapeDetector } from "./main.js";
-import { evaluateDetection } from "./evaluation-utils.js";
-import type { EvaluationMetrics } from "./evaluation-utils.js";
+import { calibrationReport, evaluateDetection } from "./evaluation-utils.js";
+import type { CalibrationReport, EvaluationMetrics } from "./evaluation-utils.js";
 import { testImages, getAllTestImageNames } from "./test-images-data.js";
 
 let groundTruthData: any = null;
@@ -19,8 +19,19 @@ async function loadGroundTruth() {
   return groundTruthData;
 }
 
+/**
+ * The detector options an image needs to be read at all, from its
+ * ground truth: equal-luminance shapes only separate in color mode, and
+ * broken outlines only close with the Hough passes.
+ */
+function imageSettings(groundTruth: any, imageName: string): Partial<DetectorOptions> {
+  return groundTruth.images[imageName]?.detector_options ?? {};
+}
+
 export interface TestResult {
   imageName: string;
+  /** Options the image's ground truth asks for, applied over the run's. */
+  settings: Partial<DetectorOptions>;
   detectionResult: DetectionResult;
   evaluation: EvaluationMetrics;
   passed: boolean;
@@ -33,18 +44,23 @@ export interface OverallResults {
   percentage: number;
   grade: string;
   testResults: TestResult[];
+  /** Detector option overrides the run used, if any. */
+  settings: Partial<DetectorOptions>;
   summary: {
     averagePrecision: number;
     averageRecall: number;
     averageF1: number;
     averageIoU: number;
     totalProcessingTime: number;
+    /** Reliability of the confidences, over every detection in the run. */
+    calibration: CalibrationReport;
   };
 }
 
 export async function runSelectedEvaluation(
   detector: ShapeDetector,
-  selectedImageNames: string[]
+  selectedImageNames: string[],
+  overrides: Partial<DetectorOptions> = {}
 ): Promise<OverallResults> {
   const groundTruth = await loadGroundTruth();
   const testResults: TestResult[] = [];
@@ -69,7 +85,8 @@ export async function runSelectedEvaluation(
       const tempDetector = new ShapeDetector(canvas);
 
       const imageData = await tempDetector.loadImage(file);
-      const detectionResult = await detector.detectShapes(imageData);
+      const settings = imageSettings(groundTruth, imageName);
+      const detectionResult = await detector.detectShapes(imageData, { ...overrides, ...settings });
 
       const gtShapes = groundTruth.images[imageName]?.shapes || [];
 
@@ -77,7 +94,8 @@ export async function runSelectedEvaluation(
       const evaluation = evaluateDetection(
         detectionResult.shapes,
         gtShapes,
-        imageName
+        imageName,
+        { rotatedBoxes: true }
       );
       evaluation.processing_time = detectionResult.processingTime;
 
@@ -106,6 +124,7 @@ export async function runSelectedEvaluation(
 
       testResults.push({
         imageName,
+        settings,
         detectionResult,
         evaluation,
         passed,
@@ -115,11 +134,13 @@ export async function runSelectedEvaluation(
       console.error(`Error testing ${imageName}:`, error);
       testResults.push({
         imageName,
+        settings: imageSettings(groundTruth, imageName),
         detectionResult: {
           shapes: [],
           processingTime: 0,
           imageWidth: 0,
           imageHeight: 0,
+          preprocessing: [],
         },
         evaluation: {
           precision: 0,
@@ -147,12 +168,16 @@ export async function runSelectedEvaluation(
     percentage: Math.round(percentage * 100) / 100,
     grade: calculateGrade(percentage),
     testResults,
+    settings: overrides,
     summary: {
       averagePrecision: totalPrecision / numTests,
       averageRecall: totalRecall / numTests,
       averageF1: totalF1 / numTests,
       averageIoU: totalIoU / numTests,
       totalProcessingTime,
+      calibration: calibrationReport(
+        testResults.flatMap((result) => result.evaluation.confidence_outcomes ?? [])
+      ),
     },
   };
 
@@ -161,7 +186,8 @@ export async function runSelectedEvaluation(
 }
 
 export async function runEvaluation(
-  detector: ShapeDetector
+  detector: ShapeDetector,
+  overrides: Partial<DetectorOptions> = {}
 ): Promise<OverallResults> {
   const groundTruth = await loadGroundTruth();
   const testResults: TestResult[] = [];
@@ -187,7 +213,8 @@ export async function runEvaluation(
       const tempDetector = new ShapeDetector(canvas);
 
       const imageData = await tempDetector.loadImage(file);
-      const detectionResult = await detector.detectShapes(imageData);
+      const settings = imageSettings(groundTruth, imageName);
+      const detectionResult = await detector.detectShapes(imageData, { ...overrides, ...settings });
 
       const gtShapes = groundTruth.images[imageName]?.shapes || [];
 
@@ -195,7 +222,8 @@ export async function runEvaluation(
       const evaluation = evaluateDetection(
         detectionResult.shapes,
         gtShapes,
-        imageName
+        imageName,
+        { rotatedBoxes: true }
       );
       evaluation.processing_time = detectionResult.processingTime;
 
@@ -224,6 +252,7 @@ export async function runEvaluation(
 
       testResults.push({
         imageName,
+        settings,
         detectionResult,
         evaluation,
         passed,
@@ -233,11 +262,13 @@ export async function runEvaluation(
       console.error(`Error testing ${imageName}:`, error);
       testResults.push({
         imageName,
+        settings: imageSettings(groundTruth, imageName),
         detectionResult: {
           shapes: [],
           processingTime: 0,
           imageWidth: 0,
           imageHeight: 0,
+          preprocessing: [],
         },
         evaluation: {
           precision: 0,
@@ -265,12 +296,16 @@ export async function runEvaluation(
     percentage: Math.round(percentage * 100) / 100,
     grade: calculateGrade(percentage),
     testResults,
+    settings: overrides,
     summary: {
       averagePrecision: totalPrecision / numTests,
       averageRecall: totalRecall / numTests,
       averageF1: totalF1 / numTests,
       averageIoU: totalIoU / numTests,
       totalProcessingTime,
+      calibration: calibrationReport(
+        testResults.flatMap((result) => result.evaluation.confidence_outcomes ?? [])
+      ),
     },
   };
 
@@ -368,6 +403,47 @@ function calculateScore(
     feedback.push(`✗ area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
   }
 
+  // Fits aren't part of the score, but a circle fit should land within
+  // half a pixel. A larger error means the fits are biased, like a fit to
+  // one side of the edge rather than its middle, so that fails.
+  if (evaluation.radius_error !== undefined) {
+    const mark = evaluation.radius_error <= 0.5 ? "✓" : "✗";
+    feedback.push(`${mark} radius (${evaluation.radius_error.toFixed(2)}px error)`);
+  }
+
+  // Reported for information only.
+  if (evaluation.axis_error !== undefined) {
+    feedback.push(`ℹ ellipse axes (${evaluation.axis_error.toFixed(1)}px error)`);
+  }
+  if (evaluation.star_points_accuracy !== undefined) {
+    feedback.push(`ℹ star points (${(evaluation.star_points_accuracy * 100).toFixed(0)}% correct)`);
+  }
+  if (evaluation.star_radius_error !== undefined) {
+    feedback.push(`ℹ star radii (${evaluation.star_radius_error.toFixed(1)}px error)`);
+  }
+  if (evaluation.star_angle_error !== undefined) {
+    feedback.push(`ℹ star rotation (${evaluation.star_angle_error.toFixed(1)}° error)`);
+  }
+  if (evaluation.subtype_accuracy !== undefined) {
+    feedback.push(`ℹ quadrilateral subtypes (${(evaluation.subtype_accuracy * 100).toFixed(0)}% correct)`);
+  }
+  if (evaluation.sides_accuracy !== undefined) {
+    feedback.push(`ℹ polygon sides (${(evaluation.sides_accuracy * 100).toFixed(0)}% correct)`);
+  }
+  if (evaluation.endpoint_error !== undefined) {
+    feedback.push(`ℹ line ends (${evaluation.endpoint_error.toFixed(1)}px error)`);
+  }
+  if (evaluation.vertex_error !== undefined) {
+    feedback.push(`ℹ vertices (${evaluation.vertex_error.toFixed(1)}px error)`);
+  }
+  if (evaluation.angle_error !== undefined) {
+    feedback.push(
+      `ℹ rotation (${evaluation.angle_error.toFixed(1)}° error, rotated IoU: ${(
+        evaluation.average_rotated_iou ?? 0
+      ).toFixed(3)})`
+    );
+  }
+
   const processingTime = detection.processingTime;
   if (processingTime <= 500) {
     score += 10;
@@ -415,6 +491,27 @@ export function displayEvaluationResults(
           <li>Total Processing Time: ${results.summary.totalProcessingTime.toFixed(
             0
           )}ms</li>
+          <li>Expected Calibration Error: ${results.summary.calibration.expected_calibration_error.toFixed(
+            3
+          )} over ${results.summary.calibration.count} detections</li>
+          ${results.summary.calibration.bins
+            .filter((bin) => bin.count > 0)
+            .map(
+              (bin) =>
+                `<li>Confidence ${bin.lower.toFixed(1)}–${bin.upper.toFixed(1)}: ${
+                  bin.count
+                } detections, mean ${bin.mean_confidence.toFixed(2)}, ${(
+                  bin.accuracy * 100
+                ).toFixed(0)}% correct</li>`
+            )
+            .join("")}
+          ${
+            Object.keys(results.settings).length > 0
+              ? `<li>Detector Settings: ${Object.entries(results.settings)
+                  .map(([key, value]) => `${key}=${value}`)
+                  .join(", ")}</li>`
+              : ""
+          }
         </ul>
       </div>
       
@@ -428,6 +525,13 @@ export function displayEvaluationResults(
             <p><strong>Detected:</strong> ${
               result.detectionResult.shapes.length
             } shapes</p>
+            ${
+              Object.keys(result.settings).length > 0
+                ? `<p><strong>Settings:</strong> ${Object.entries(result.settings)
+                    .map(([key, value]) => `${key}=${value}`)
+                    .join(", ")}</p>`
+                : ""
+            }
             <p><strong>Processing Time:</strong> ${result.detectionResult.processingTime.toFixed(
               0
             )}ms</p>
@@ -0,0 +1,359 @@
+import type { Point } from "./detector-core.js";
+import type { Gradients } from "./image-processing.js";
+
+// --- MODEL FITTING ---
+// Least-squares fits of ideal curves to traced contour points. A fit gives
+// exact parameters (sub-pixel center, radius) where the contour's own
+// metrics only give averages, and its residual says how well the model fits.
+
+export interface CircleFit {
+  center: Point;
+  radius: number;
+  /** Root-mean-square distance (px) from the points to the fitted circle. */
+  residual: number;
+}
+
+// Gauss-Newton stops after this many steps, or once a step moves less than this (px)
+const MAX_ITERATIONS = 20;
+const CONVERGED = 1e-6;
+
+/**
+ * Fits a circle to the points: an algebraic (Kåsa) fit for a starting
+ * guess, refined by Gauss-Newton on the true geometric distances.
+ * Returns null for fewer than 3 points or points all on one line.
+ */
+export function fitCircle(points: Point[]): CircleFit | null {
+  const n = points.length;
+  if (n < 3) return null;
+
+  // Work relative to the centroid to keep the sums well-conditioned
+  let meanX = 0, meanY = 0;
+  for (const p of points) {
+    meanX += p.x;
+    meanY += p.y;
+  }
+  meanX /= n;
+  meanY /= n;
+
+  // Algebraic fit: x² + y² + Dx + Ey + F = 0, linear in D, E, F
+  let sxx = 0, syy = 0, sxy = 0, sxz = 0, syz = 0, sz = 0;
+  for (const p of points) {
+    const x = p.x - meanX;
+    const y = p.y - meanY;
+    const z = x * x + y * y;
+    sxx += x * x;
+    syy += y * y;
+    sxy += x * y;
+    sxz += x * z;
+    syz += y * z;
+    sz += z;
+  }
+  // Centered sums of x and y are 0, which decouples F from D and E
+  const guess = solve3(
+    [[sxx, sxy, 0], [sxy, syy, 0], [0, 0, n]],
+    [-sxz, -syz, -sz]
+  );
+  if (!guess) return null;
+  let a = -guess[0] / 2;
+  let b = -guess[1] / 2;
+  let r = Math.sqrt(Math.max(0, a * a + b * b - guess[2]));
+
+  // Geometric refinement: minimize Σ (|p - c| - r)²
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const jtj = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    const jtd = [0, 0, 0];
+    for (const p of points) {
+      const dx = p.x - meanX - a;
+      const dy = p.y - meanY - b;
+      const distance = Math.hypot(dx, dy) || 1e-12;
+      const d = distance - r;
+      const j = [-dx / distance, -dy / distance, -1];
+      for (let row = 0; row < 3; row++) {
+        jtd[row] += j[row] * d;
+        for (let col = 0; col < 3; col++) jtj[row][col] += j[row] * j[col];
+      }
+    }
+    const step = solve3(jtj, jtd.map((v) => -v));
+    if (!step) break;
+    a += step[0];
+    b += step[1];
+    r += step[2];
+    if (Math.hypot(step[0], step[1], step[2]) < CONVERGED) break;
+  }
+
+  let sumSquares = 0;
+  for (const p of points) {
+    const d = Math.hypot(p.x - meanX - a, p.y - meanY - b) - r;
+    sumSquares += d * d;
+  }
+  return {
+    center: { x: a + meanX, y: b + meanY },
+    radius: Math.abs(r),
+    residual: Math.sqrt(sumSquares / n),
+  };
+}
+
+export interface EllipseFit {
+  center: Point;
+  /** Half the longest diameter (px). */
+  semiMajor: number;
+  /** Half the shortest diameter (px). */
+  semiMinor: number;
+  /** Direction of the major axis, in degrees clockwise on screen, in [0, 180). */
+  angle: number;
+  /** RMS distance (px) from the points to the ellipse (Sampson approximation). */
+  residual: number;
+}
+
+/**
+ * Fits an ellipse to the points with the direct least-squares method of
+ * Fitzgibbon, Pilu & Fisher, in the numerically stable form of Halíř &
+ * Flusser. Unlike a general conic fit it can only return an ellipse.
+ * Returns null for fewer than 5 points or a degenerate fit.
+ */
+export function fitEllipse(points: Point[]): EllipseFit | null {
+  const n = points.length;
+  if (n < 5) return null;
+
+  // Center on the centroid and scale to unit RMS radius, for conditioning
+  let meanX = 0, meanY = 0;
+  for (const p of points) {
+    meanX += p.x;
+    meanY += p.y;
+  }
+  meanX /= n;
+  meanY /= n;
+  let spread = 0;
+  for (const p of points) spread += (p.x - meanX) ** 2 + (p.y - meanY) ** 2;
+  const scale = Math.sqrt(spread / n);
+  if (scale === 0) return null;
+  const xs = points.map((p) => (p.x - meanX) / scale);
+  const ys = points.map((p) => (p.y - meanY) / scale);
+
+  // Scatter matrices of the quadratic [x², xy, y²] and linear [x, y, 1] parts
+  const S1 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const S2 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const S3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (let i = 0; i < n; i++) {
+    const q = [xs[i] * xs[i], xs[i] * ys[i], ys[i] * ys[i]];
+    const l = [xs[i], ys[i], 1];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        S1[r][c] += q[r] * q[c];
+        S2[r][c] += q[r] * l[c];
+        S3[r][c] += l[r] * l[c];
+      }
+    }
+  }
+
+  // The linear part follows from the quadratic part: a2 = T·a1
+  const S3inv = invert3(S3);
+  if (!S3inv) return null;
+  const T = multiply3(S3inv, transpose3(S2)).map((row) => row.map((v) => -v));
+  const S2T = multiply3(S2, T);
+  const reduced = S1.map((row, r) => row.map((v, c) => v + S2T[r][c]));
+  // Premultiply by the inverse of the constraint matrix for 4ac - b² = 1
+  const M = [
+    reduced[2].map((v) => v / 2),
+    reduced[1].map((v) => -v),
+    reduced[0].map((v) => v / 2),
+  ];
+
+  // The ellipse is the eigenvector of M that satisfies the constraint
+  let a1: number[] | null = null;
+  for (const lambda of realEigenvalues3(M)) {
+    const v = nullVector3(M, lambda);
+    if (v && 4 * v[0] * v[2] - v[1] * v[1] > 0) {
+      a1 = v;
+      break;
+    }
+  }
+  if (!a1) return null;
+  const a2 = T.map((row) => row[0] * a1![0] + row[1] * a1![1] + row[2] * a1![2]);
+  const [A, B, C] = a1;
+  const [D, E, F] = a2;
+
+  // Conic coefficients to center, axes and angle
+  const det = B * B - 4 * A * C;
+  const cx = (2 * C * D - B * E) / det;
+  const cy = (2 * A * E - B * D) / det;
+  const Fc = A * cx * cx + B * cx * cy + C * cy * cy + D * cx + E * cy + F;
+  const mean = (A + C) / 2;
+  const half = Math.hypot((A - C) / 2, B / 2);
+  const small = mean - half; // Eigenvalues of [[A, B/2], [B/2, C]]
+  const large = mean + half;
+  if (-Fc / small <= 0 || -Fc / large <= 0) return null;
+  const semiMajor = Math.sqrt(-Fc / small);
+  const semiMinor = Math.sqrt(-Fc / large);
+  // The eigenvector of the larger eigenvalue lies at ½·atan2(B, A - C);
+  // that is the minor axis, and the major axis is square to it
+  const angle = (Math.atan2(B, A - C) * 90) / Math.PI + 90;
+
+  // Sampson distance: the conic's value over its gradient's length
+  let sumSquares = 0;
+  for (let i = 0; i < n; i++) {
+    const x = xs[i], y = ys[i];
+    const value = A * x * x + B * x * y + C * y * y + D * x + E * y + F;
+    const gx = 2 * A * x + B * y + D;
+    const gy = B * x + 2 * C * y + E;
+    const gradient = Math.hypot(gx, gy);
+    if (gradient > 0) sumSquares += (value / gradient) ** 2;
+  }
+
+  return {
+    center: { x: cx * scale + meanX, y: cy * scale + meanY },
+    semiMajor: semiMajor * scale,
+    semiMinor: semiMinor * scale,
+    angle: ((angle % 180) + 180) % 180,
+    residual: Math.sqrt(sumSquares / n) * scale,
+  };
+}
+
+// How far (px) either side of a contour point `snapToRidge` looks for the
+// edge's ridge, and how closely it samples the gradient magnitude there
+const RIDGE_REACH = 3;
+const RIDGE_STEP = 0.5;
+
+/**
+ * Moves each point across its edge, along the gradient, onto the nearest
+ * ridge of the gradient magnitude, placed to sub-pixel precision by a
+ * parabola through the samples around it. The ridge is where the edge
+ * really is. A traced contour runs along one side of the edge instead
+ * (the outside of a thresholded Sobel band, the inside of a region), so a
+ * circle fitted to it comes out too large or too small. Points with no
+ * gradient, or no ridge within reach, stay where they are.
+ */
+export function snapToRidge(points: Point[], gradients: Gradients, width: number, height: number): Point[] {
+  const { gx, gy, magnitude } = gradients;
+  const sample = (x: number, y: number): number => {
+    if (x < 0 || y < 0 || x > width - 1 || y > height - 1) return 0;
+    const x0 = Math.min(Math.floor(x), width - 2), y0 = Math.min(Math.floor(y), height - 2);
+    const fx = x - x0, fy = y - y0;
+    const i = y0 * width + x0;
+    return (
+      (magnitude[i] * (1 - fx) + magnitude[i + 1] * fx) * (1 - fy) +
+      (magnitude[i + width] * (1 - fx) + magnitude[i + width + 1] * fx) * fy
+    );
+  };
+  const steps = Math.round(RIDGE_REACH / RIDGE_STEP);
+  return points.map((p) => {
+    const i = Math.round(p.y) * width + Math.round(p.x);
+    const length = Math.hypot(gx[i], gy[i]);
+    if (!(length > 0)) return p;
+    const nx = gx[i] / length, ny = gy[i] / length;
+    const profile: number[] = [];
+    for (let k = -steps; k <= steps; k++) {
+      profile.push(sample(p.x + k * RIDGE_STEP * nx, p.y + k * RIDGE_STEP * ny));
+    }
+    // The peak nearest the point, in case another edge (the far side of a
+    // thin stroke) is within reach too
+    let best = -1;
+    for (let k = 1; k < profile.length - 1; k++) {
+      if (profile[k] > profile[k - 1] && profile[k] >= profile[k + 1] &&
+          (best === -1 || Math.abs(k - steps) < Math.abs(best - steps))) {
+        best = k;
+      }
+    }
+    if (best === -1) return p;
+    const [before, peak, after] = [profile[best - 1], profile[best], profile[best + 1]];
+    const curvature = before - 2 * peak + after;
+    const offset = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+    const t = (best - steps + offset) * RIDGE_STEP;
+    return { x: p.x + t * nx, y: p.y + t * ny };
+  });
+}
+
+// --- SMALL MATRIX HELPERS ---
+
+function transpose3(m: number[][]): number[][] {
+  return [0, 1, 2].map((c) => [0, 1, 2].map((r) => m[r][c]));
+}
+
+function multiply3(a: number[][], b: number[][]): number[][] {
+  return [0, 1, 2].map((r) =>
+    [0, 1, 2].map((c) => a[r][0] * b[0][c] + a[r][1] * b[1][c] + a[r][2] * b[2][c])
+  );
+}
+
+function invert3(m: number[][]): number[][] | null {
+  const columns = [0, 1, 2].map((c) => solve3(m, [0, 1, 2].map((r) => (r === c ? 1 : 0))));
+  if (columns.some((column) => !column)) return null;
+  return transpose3(columns as number[][]);
+}
+
+/**
+ * The real roots of the characteristic polynomial of a 3×3 matrix,
+ * λ³ - trace·λ² + c1·λ - det = 0, solved with the trigonometric or
+ * Cardano formula.
+ */
+function realEigenvalues3(m: number[][]): number[] {
+  const trace = m[0][0] + m[1][1] + m[2][2];
+  const c1 =
+    m[0][0] * m[1][1] - m[0][1] * m[1][0] +
+    m[0][0] * m[2][2] - m[0][2] * m[2][0] +
+    m[1][1] * m[2][2] - m[1][2] * m[2][1];
+  const det =
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  // Depressed cubic t³ + p·t + q = 0 with λ = t + trace/3
+  const shift = trace / 3;
+  const p = c1 - (trace * trace) / 3;
+  const q = -(2 * trace ** 3) / 27 + (trace * c1) / 3 - det;
+  const discriminant = (q * q) / 4 + (p * p * p) / 27;
+  if (discriminant > 0) {
+    const root = Math.sqrt(discriminant);
+    return [Math.cbrt(-q / 2 + root) + Math.cbrt(-q / 2 - root) + shift];
+  }
+  if (p === 0) return [shift];
+  const r = 2 * Math.sqrt(-p / 3);
+  const phi = Math.acos(Math.max(-1, Math.min(1, (3 * q) / (p * r))));
+  return [0, 1, 2].map((k) => r * Math.cos((phi - 2 * Math.PI * k) / 3) + shift);
+}
+
+/**
+ * A vector v with (m - λI)·v = 0: the longest cross product of two rows.
+ */
+function nullVector3(m: number[][], lambda: number): number[] | null {
+  const rows = m.map((row, i) => row.map((v, j) => (i === j ? v - lambda : v)));
+  let best: number[] | null = null;
+  let bestLength = 0;
+  for (const [i, j] of [[0, 1], [0, 2], [1, 2]]) {
+    const [a, b] = [rows[i], rows[j]];
+    const v = [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+    const length = Math.hypot(v[0], v[1], v[2]);
+    if (length > bestLength) {
+      best = v;
+      bestLength = length;
+    }
+  }
+  return best && best.map((v) => v / bestLength);
+}
+
+/**
+ * Solves the 3×3 system A·x = b by Gaussian elimination with partial
+ * pivoting. Returns null if A is singular.
+ */
+function solve3(A: number[][], b: number[]): number[] | null {
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < 3; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < 4; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = [0, 0, 0];
+  for (let row = 2; row >= 0; row--) {
+    let sum = m[row][3];
+    for (let k = row + 1; k < 3; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
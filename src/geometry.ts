@@ -0,0 +1,497 @@
+import type { Contour, Point } from "./detector-core.js";
+
+// --- ORIENTED BOXES ---
+// Angles are in degrees, measured clockwise on screen (y points down),
+// the same direction as an SVG or canvas `rotate()`.
+
+/**
+ * A rectangle turned about its center.
+ * `width` runs along the `angle` direction and is never shorter than `height`,
+ * so `angle` is the direction of the longer side, in [0, 180).
+ */
+export interface OrientedBox {
+  center: Point;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+/**
+ * The smallest-area rectangle that contains a convex polygon, found with
+ * rotating calipers: the best rectangle always has one side flush with
+ * an edge of the polygon, so only those directions need checking.
+ */
+export function minAreaRect(hull: Contour): OrientedBox {
+  if (hull.length === 0) {
+    return { center: { x: 0, y: 0 }, width: 0, height: 0, angle: 0 };
+  }
+
+  let best: OrientedBox | null = null;
+  let bestArea = Infinity;
+  for (let i = 0; i < hull.length; i++) {
+    const a = hull[i];
+    const b = hull[(i + 1) % hull.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0 && hull.length > 1) continue;
+    // Unit vectors along the edge (u) and across it (v)
+    const ux = length === 0 ? 1 : (b.x - a.x) / length;
+    const uy = length === 0 ? 0 : (b.y - a.y) / length;
+
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const p of hull) {
+      const dx = p.x - a.x;
+      const dy = p.y - a.y;
+      const u = dx * ux + dy * uy;
+      const v = -dx * uy + dy * ux;
+      if (u < minU) minU = u;
+      if (u > maxU) maxU = u;
+      if (v < minV) minV = v;
+      if (v > maxV) maxV = v;
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (area < bestArea) {
+      bestArea = area;
+      const midU = (minU + maxU) / 2;
+      const midV = (minV + maxV) / 2;
+      best = orient(
+        { x: a.x + midU * ux - midV * uy, y: a.y + midU * uy + midV * ux },
+        maxU - minU,
+        maxV - minV,
+        (Math.atan2(uy, ux) * 180) / Math.PI
+      );
+    }
+  }
+  return best!;
+}
+
+/**
+ * Builds an `OrientedBox`, swapping the sides if needed so `width` is the
+ * longer one, and bringing the angle into [0, 180).
+ */
+function orient(center: Point, width: number, height: number, angle: number): OrientedBox {
+  if (width < height) {
+    [width, height] = [height, width];
+    angle += 90;
+  }
+  return { center, width, height, angle: normalizeAngle(angle, 180) };
+}
+
+/** Brings an angle into [0, period). */
+export function normalizeAngle(angle: number, period: number = 360): number {
+  return ((angle % period) + period) % period;
+}
+
+/**
+ * The smallest difference between two angles (degrees), treating angles a
+ * whole `period` apart as equal. A rectangle looks the same turned 180°,
+ * so that is the default; use 90 for squares.
+ */
+export function angleDifference(a: number, b: number, period: number = 180): number {
+  const d = normalizeAngle(a - b, period);
+  return Math.min(d, period - d);
+}
+
+/**
+ * The four corners of an oriented box, clockwise on screen.
+ */
+export function orientedBoxCorners(box: OrientedBox): Point[] {
+  const radians = (box.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const hw = box.width / 2;
+  const hh = box.height / 2;
+  return [
+    [-hw, -hh], [hw, -hh], [hw, hh], [-hw, hh],
+  ].map(([dx, dy]) => ({
+    x: box.center.x + dx * cos - dy * sin,
+    y: box.center.y + dx * sin + dy * cos,
+  }));
+}
+
+/**
+ * Intersection over union of two oriented boxes.
+ */
+export function rotatedBoxIoU(a: OrientedBox, b: OrientedBox): number {
+  const intersection = polygonArea(clipConvexPolygon(orientedBoxCorners(a), orientedBoxCorners(b)));
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * The part of `subject` inside the convex polygon `clip`
+ * (Sutherland-Hodgman). Both polygons must wind the same way.
+ */
+function clipConvexPolygon(subject: Point[], clip: Point[]): Point[] {
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const edgeStart = clip[i];
+    const edgeEnd = clip[(i + 1) % clip.length];
+    // Positive on the inside for a clockwise-on-screen polygon
+    const side = (p: Point) =>
+      (edgeEnd.x - edgeStart.x) * (p.y - edgeStart.y) - (edgeEnd.y - edgeStart.y) * (p.x - edgeStart.x);
+
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j];
+      const previous = input[(j + input.length - 1) % input.length];
+      const sc = side(current);
+      const sp = side(previous);
+      if (sc >= 0) {
+        if (sp < 0) output.push(crossing(previous, current, sp, sc));
+        output.push(current);
+      } else if (sp >= 0) {
+        output.push(crossing(previous, current, sp, sc));
+      }
+    }
+  }
+  return output;
+}
+
+// Where the segment p→q crosses the clip edge, given each end's side value.
+function crossing(p: Point, q: Point, sp: number, sq: number): Point {
+  const t = sp / (sp - sq);
+  return { x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) };
+}
+
+// --- POLYGON VERTICES ---
+
+/**
+ * The same polygon, listed clockwise on screen starting from the topmost
+ * vertex (the leftmost of those, on a tie), so two outlines of one shape
+ * list their corners in the same order.
+ */
+export function clockwiseFromTop(points: Point[]): Point[] {
+  if (points.length === 0) return [];
+  // With y pointing down, a positive shoelace sum means clockwise on screen.
+  let signedArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    signedArea += p.x * q.y - q.x * p.y;
+  }
+  const ordered = signedArea < 0 ? [...points].reverse() : [...points];
+
+  let top = 0;
+  ordered.forEach((p, i) => {
+    const t = ordered[top];
+    if (p.y < t.y || (p.y === t.y && p.x < t.x)) top = i;
+  });
+  return [...ordered.slice(top), ...ordered.slice(0, top)];
+}
+
+/**
+ * The mean distance between matching vertices of two polygons with the
+ * same number of corners, under whichever pairing (any starting vertex,
+ * either direction) fits best. `null` if the counts differ.
+ */
+export function vertexError(a: Point[], b: Point[]): number | null {
+  if (a.length !== b.length || a.length === 0) return null;
+  const n = a.length;
+  let best = Infinity;
+  for (const direction of [1, -1]) {
+    for (let shift = 0; shift < n; shift++) {
+      let total = 0;
+      for (let i = 0; i < n; i++) {
+        const q = b[(((shift + direction * i) % n) + n) % n];
+        total += Math.hypot(a[i].x - q.x, a[i].y - q.y);
+      }
+      best = Math.min(best, total / n);
+    }
+  }
+  return best;
+}
+
+/**
+ * `count` points evenly spaced along the closed polygon through the
+ * contour's points, starting at the first; null if it has no length.
+ */
+export function resampleContour(contour: Contour, count: number): Point[] | null {
+  const lengths: number[] = [];
+  let total = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const p = contour[i], q = contour[(i + 1) % contour.length];
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    lengths.push(length);
+    total += length;
+  }
+  if (total === 0) return null;
+
+  const points: Point[] = [];
+  let edge = 0;
+  let start = 0; // distance along the contour to the start of `edge`
+  for (let j = 0; j < count; j++) {
+    const distance = (j * total) / count;
+    while (edge < contour.length - 1 && start + lengths[edge] < distance) {
+      start += lengths[edge];
+      edge++;
+    }
+    const p = contour[edge], q = contour[(edge + 1) % contour.length];
+    const t = lengths[edge] > 0 ? (distance - start) / lengths[edge] : 0;
+    points.push({ x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) });
+  }
+  return points;
+}
+
+// `cornersByTurning` first averages each point with those up to this far
+// (px) either way along the outline, which irons out the staircase of a
+// pixel contour but leaves corners where they are.
+const TURNING_SMOOTHING = 3;
+
+/** Corners found where an outline turns, rather than by simplifying it. */
+export interface TurningCorners {
+  /** The corners, in outline order. */
+  corners: Point[];
+  /**
+   * How much further (degrees) the outline turns at each corner than
+   * along the sides either side of it. A polygon's add up to nearly 360°.
+   */
+  sharpness: number[];
+}
+
+/**
+ * The corners of a convex outline, read off how far it turns between the
+ * points `reach` px (at least twice the smoothing) behind and ahead of
+ * each point along it. That is the
+ * corner's whole turn while the sides either side are longer than
+ * `reach`, and it falls back to nothing along them, however shallow the
+ * corner; a smooth curve turns about as much everywhere. A corner of
+ * `minTurn` loses some of it to the smoothing, and peaks that stand out
+ * by less than three quarters of it are noise. `null` if the outline turns
+ * back by `minTurn` or more anywhere: it isn't convex.
+ */
+export function cornersByTurning(contour: Contour, reach: number, minTurn: number): TurningCorners | null {
+  const resampled = resampleContour(contour, Math.max(3, Math.round(polygonPerimeter(contour))));
+  if (!resampled) return null;
+  const n = resampled.length;
+  const span = Math.min(TURNING_SMOOTHING, Math.floor((n - 1) / 2));
+  const points = resampled.map((_, i) => {
+    let x = 0, y = 0;
+    for (let d = -span; d <= span; d++) {
+      const p = resampled[(i + d + n) % n];
+      x += p.x;
+      y += p.y;
+    }
+    return { x: x / (2 * span + 1), y: y / (2 * span + 1) };
+  });
+  const k = Math.max(1, Math.min(Math.max(Math.round(reach), 2 * span), Math.floor((n - 1) / 2)));
+
+  // Turns that go the way the outline winds count as positive.
+  const winding = Math.sign(polygonSignedArea(points)) || 1;
+  const turn = points.map((curr, i) => {
+    const prev = points[(i + n - k) % n];
+    const next = points[(i + k) % n];
+    const angle = Math.atan2(next.y - curr.y, next.x - curr.x) - Math.atan2(curr.y - prev.y, curr.x - prev.x);
+    return (winding * Math.atan2(Math.sin(angle), Math.cos(angle)) * 180) / Math.PI;
+  });
+  if (Math.min(...turn) <= -minTurn) return null;
+
+  // Each peak is the highest point within `k` either way
+  let peaks: number[] = [];
+  for (let i = 0; i < n; i++) {
+    let highest = true;
+    for (let d = 1; d <= k && highest; d++) {
+      highest = turn[(i + d) % n] <= turn[i] && turn[(i + n - d) % n] < turn[i];
+    }
+    if (highest) peaks.push(i);
+  }
+  // How far a peak rises above the lower of the two troughs either side
+  const prominence = (j: number): number => {
+    const i = peaks[j];
+    if (peaks.length === 1) return turn[i] - Math.min(...turn);
+    const lowest = (from: number, to: number) => {
+      let low = Infinity;
+      for (let x = from; x !== to; x = (x + 1) % n) low = Math.min(low, turn[x]);
+      return low;
+    };
+    const before = lowest(peaks[(j + peaks.length - 1) % peaks.length], i);
+    const after = lowest(i, peaks[(j + 1) % peaks.length]);
+    return turn[i] - Math.max(before, after);
+  };
+  // The least prominent go first, since each one dropped can raise its neighbours'
+  while (peaks.length > 0) {
+    let weakest = 0;
+    for (let j = 1; j < peaks.length; j++) {
+      if (prominence(j) < prominence(weakest)) weakest = j;
+    }
+    if (prominence(weakest) >= 0.75 * minTurn) break;
+    peaks = peaks.filter((_, j) => j !== weakest);
+  }
+  return { corners: peaks.map((i) => points[i]), sharpness: peaks.map((_, j) => prominence(j)) };
+}
+
+function polygonPerimeter(points: Point[]): number {
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i], q = points[(i + 1) % points.length];
+    perimeter += Math.hypot(q.x - p.x, q.y - p.y);
+  }
+  return perimeter;
+}
+
+// --- QUADRILATERALS ---
+
+/** The kinds of four-sided shape, from most to least specific. */
+export type Quadrilateral =
+  | "square"
+  | "rectangle"
+  | "rhombus"
+  | "parallelogram"
+  | "trapezoid"
+  | "quadrilateral";
+
+/**
+ * Names a four-cornered polygon by which of its opposite sides are
+ * parallel, whether its corners are right angles, and whether its sides
+ * are equal. Directions within `angleTolerance` degrees count as parallel
+ * (or perpendicular), and sides within `sideTolerance` (a fraction of the
+ * longest side) count as equal.
+ */
+export function classifyQuadrilateral(
+  corners: Point[],
+  angleTolerance: number,
+  sideTolerance: number
+): Quadrilateral {
+  if (corners.length !== 4) return "quadrilateral";
+  const sides = corners.map((p, i) => {
+    const q = corners[(i + 1) % 4];
+    return {
+      length: Math.hypot(q.x - p.x, q.y - p.y),
+      direction: (Math.atan2(q.y - p.y, q.x - p.x) * 180) / Math.PI,
+    };
+  });
+  const parallel = (i: number) => angleDifference(sides[i].direction, sides[i + 2].direction) <= angleTolerance;
+  const lengths = sides.map((side) => side.length);
+  const equalSides = Math.max(...lengths) - Math.min(...lengths) <= sideTolerance * Math.max(...lengths);
+
+  if (parallel(0) && parallel(1)) {
+    const rightAngles = Math.abs(angleDifference(sides[0].direction, sides[1].direction) - 90) <= angleTolerance;
+    if (rightAngles) return equalSides ? "square" : "rectangle";
+    return equalSides ? "rhombus" : "parallelogram";
+  }
+  if (parallel(0) || parallel(1)) return "trapezoid";
+  return "quadrilateral";
+}
+
+// --- STARS ---
+
+/** A star read off the corners of its outline. */
+export interface Star {
+  /** How many tips it has. */
+  points: number;
+  /** Mean distance from the center to the tips. */
+  outerRadius: number;
+  /** Mean distance from the center to the valleys between the tips. */
+  innerRadius: number;
+  /** Direction of a tip, in degrees clockwise from straight up, in [0, 360 / points). */
+  rotation: number;
+  /** Tips and valleys, alternating, in outline order. */
+  corners: Point[];
+}
+
+export interface StarLimits {
+  minPoints: number;
+  maxPoints: number;
+  /** Largest inner / outer radius; rounder than this is a polygon with notches. */
+  maxRadiusRatio: number;
+  /** How far any tip or valley may stray from the mean radius, as a fraction of the outer radius. */
+  radiusTolerance: number;
+}
+
+/**
+ * Reads a star off a polygon's corners: going round the outline, convex
+ * corners (tips) and reflex corners (valleys) have to take turns. A run of
+ * several corners of one kind counts as one, keeping the tip farthest from
+ * `center` or the valley nearest to it. `null` if the corners don't make a
+ * reasonably regular star within `limits`.
+ */
+export function findStar(corners: Point[], center: Point, limits: StarLimits): Star | null {
+  const n = corners.length;
+  if (n < 2 * limits.minPoints) return null;
+
+  // With y pointing down, a positive shoelace sum means clockwise on screen.
+  let signedArea = 0;
+  for (let i = 0; i < n; i++) {
+    const p = corners[i];
+    const q = corners[(i + 1) % n];
+    signedArea += p.x * q.y - q.x * p.y;
+  }
+  // A corner is a tip where the outline turns the same way it winds overall.
+  const isTip = corners.map((curr, i) => {
+    const prev = corners[(i + n - 1) % n];
+    const next = corners[(i + 1) % n];
+    const turn = (curr.x - prev.x) * (next.y - curr.y) - (curr.y - prev.y) * (next.x - curr.x);
+    return turn * signedArea > 0;
+  });
+
+  // Start where the kind changes, so no run wraps around the end.
+  const start = isTip.findIndex((tip, i) => tip !== isTip[(i + n - 1) % n]);
+  if (start === -1) return null;
+  const direction = (p: Point) => Math.atan2(p.x - center.x, center.y - p.y);
+  const merged: { point: Point; tip: boolean; distance: number; run: Point[] }[] = [];
+  for (let j = 0; j < n; j++) {
+    const i = (start + j) % n;
+    const point = corners[i];
+    const distance = Math.hypot(point.x - center.x, point.y - center.y);
+    const last = merged[merged.length - 1];
+    if (last && last.tip === isTip[i]) {
+      last.run.push(point);
+      if (isTip[i] ? distance > last.distance : distance < last.distance) {
+        last.point = point;
+        last.distance = distance;
+      }
+    } else {
+      merged.push({ point, tip: isTip[i], distance, run: [point] });
+    }
+  }
+
+  const points = merged.length / 2;
+  if (points < limits.minPoints || points > limits.maxPoints) return null;
+  // A run has to be one corner drawn roughly, not two tips with the
+  // valley between them missed: it may span a quarter of the tip spacing.
+  const maxSpan = Math.PI / 2 / points;
+  if (merged.some((c) => c.run.some((p) => angleDifference(direction(p), direction(c.point), 2 * Math.PI) > maxSpan))) {
+    return null;
+  }
+
+  const tips = merged.filter((corner) => corner.tip);
+  const valleys = merged.filter((corner) => !corner.tip);
+  const mean = (list: typeof merged) => list.reduce((sum, c) => sum + c.distance, 0) / list.length;
+  const outerRadius = mean(tips);
+  const innerRadius = mean(valleys);
+  if (innerRadius > limits.maxRadiusRatio * outerRadius) return null;
+  const tolerance = limits.radiusTolerance * outerRadius;
+  if (tips.some((c) => Math.abs(c.distance - outerRadius) > tolerance) ||
+      valleys.some((c) => Math.abs(c.distance - innerRadius) > tolerance)) {
+    return null;
+  }
+
+  // Tips repeat every 360° / points; averaging the tips' directions scaled
+  // by `points` lines them all up on one.
+  let sin = 0;
+  let cos = 0;
+  for (const { point } of tips) {
+    sin += Math.sin(direction(point) * points);
+    cos += Math.cos(direction(point) * points);
+  }
+  const rotation = normalizeAngle((Math.atan2(sin, cos) * 180) / Math.PI / points, 360 / points);
+
+  return { points, outerRadius, innerRadius, rotation, corners: merged.map((c) => c.point) };
+}
+
+/** Area of a simple polygon (shoelace formula). */
+export function polygonArea(points: Point[]): number {
+  return Math.abs(polygonSignedArea(points));
+}
+
+/** Shoelace area, positive when the points run clockwise on screen. */
+function polygonSignedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    area += p.x * q.y - q.x * p.y;
+  }
+  return area / 2;
+}
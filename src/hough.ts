@@ -0,0 +1,433 @@
+import type { Point } from "./detector-core.js";
+import { fitCircle, snapToRidge } from "./fitting.js";
+import type { Gradients } from "./image-processing.js";
+
+// --- HOUGH TRANSFORMS ---
+// Contours need an outline that closes; a Hough transform only needs
+// enough edge pixels to agree. Every edge pixel votes for each circle or
+// line it could lie on, and the best-supported ones win however the
+// pixels are broken up, so a dashed circle or a line with gaps still
+// shows up.
+
+export interface HoughCircle {
+  center: Point;
+  radius: number;
+  /** Fraction of the circumference that has edge pixels on it, 0-1. */
+  support: number;
+  /** RMS distance (px) from the supporting edge pixels to the circle. */
+  residual: number;
+}
+
+export interface HoughCircleOptions {
+  /** Smallest and largest radius (px) to look for. */
+  minRadius: number;
+  maxRadius: number;
+  /** Fraction of the circumference that needs edge pixels on it. */
+  minSupport: number;
+}
+
+// Edge pixels this close (px) to a circle lie on it.
+const BAND = 1.5;
+// At most this many accumulator peaks are checked as circle centers.
+const MAX_CENTERS = 100;
+// The two edges of a stroke are at most this far apart (px).
+const STROKE_WIDTH = 10;
+// The outer edge of a stroke, or the outer side of a thick edge, holds at
+// least this share of the strongest radius's pixels.
+const OUTER_EDGE_SHARE = 0.5;
+
+/**
+ * Finds circles with the gradient Hough transform: each edge pixel votes
+ * for the centers along its gradient direction (both ways, for dark
+ * shapes on light and light on dark), at every radius in range. Each
+ * accumulator peak then takes the radius most edge pixels sit at, and is
+ * kept if they cover enough of that circle. Returns the circles, best
+ * supported first.
+ */
+export function houghCircles(
+  edges: Uint8Array,
+  gradients: Gradients,
+  width: number,
+  height: number,
+  options: HoughCircleOptions
+): HoughCircle[] {
+  const minRadius = Math.max(1, Math.round(options.minRadius));
+  const maxRadius = Math.max(minRadius, Math.round(options.maxRadius));
+  const { gx, gy, magnitude } = gradients;
+
+  const edgePixels: number[] = [];
+  const votes = new Uint32Array(width * height);
+  for (let i = 0; i < edges.length; i++) {
+    if (edges[i] === 0 || magnitude[i] === 0) continue;
+    edgePixels.push(i);
+    const x = i % width, y = (i - x) / width;
+    const ux = gx[i] / magnitude[i], uy = gy[i] / magnitude[i];
+    for (let r = minRadius; r <= maxRadius; r++) {
+      for (const sign of [1, -1]) {
+        const cx = Math.round(x + sign * r * ux), cy = Math.round(y + sign * r * uy);
+        if (cx >= 0 && cx < width && cy >= 0 && cy < height) votes[cy * width + cx]++;
+      }
+    }
+  }
+
+  // Rounding scatters a center's votes over a few pixels, so peaks are
+  // taken over 3x3 sums, and only the best in their neighborhood count.
+  const summed = new Uint32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) sum += votes[(y + dy) * width + x + dx];
+      }
+      summed[y * width + x] = sum;
+    }
+  }
+  const minVotes = options.minSupport * 2 * Math.PI * minRadius;
+  const peaks: number[] = [];
+  const reach = Math.max(2, Math.floor(minRadius / 2));
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const v = summed[y * width + x];
+      if (v < minVotes) continue;
+      let isPeak = true;
+      for (let dy = -reach; dy <= reach && isPeak; dy++) {
+        for (let dx = -reach; dx <= reach; dx++) {
+          const ny = y + dy, nx = x + dx;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          const other = summed[ny * width + nx];
+          // Ties go to the first pixel in scan order
+          if (other > v || (other === v && (dy < 0 || (dy === 0 && dx < 0)))) {
+            isPeak = false;
+            break;
+          }
+        }
+      }
+      if (isPeak) peaks.push(y * width + x);
+    }
+  }
+  peaks.sort((a, b) => summed[b] - summed[a]);
+
+  const circles: HoughCircle[] = [];
+  for (const peak of peaks.slice(0, MAX_CENTERS)) {
+    const center = { x: peak % width, y: Math.floor(peak / width) };
+    const circle = circleAround(center, edgePixels, gradients, width, height, minRadius, maxRadius);
+    if (!circle || circle.support < options.minSupport) continue;
+    // Several peaks can land on the same circle
+    const duplicate = circles.some((c) =>
+      Math.hypot(c.center.x - circle.center.x, c.center.y - circle.center.y) < c.radius / 4 &&
+      Math.abs(c.radius - circle.radius) < c.radius / 4
+    );
+    if (!duplicate) circles.push(circle);
+  }
+  return circles.sort((a, b) => b.support - a.support);
+}
+
+/**
+ * The circle about `center` that the most edge pixels sit on, relative to
+ * its size, refined with a least-squares fit to those pixels, moved onto
+ * the ridge of the edge they belong to.
+ */
+function circleAround(
+  center: Point,
+  edgePixels: number[],
+  gradients: Gradients,
+  width: number,
+  height: number,
+  minRadius: number,
+  maxRadius: number
+): HoughCircle | null {
+  const histogram = new Uint32Array(maxRadius + 3);
+  for (const i of edgePixels) {
+    const x = i % width, y = (i - x) / width;
+    const d = Math.hypot(x - center.x, y - center.y);
+    if (d < histogram.length) histogram[Math.floor(d)]++;
+  }
+  let radius = 0;
+  let best = 0;
+  for (let r = minRadius; r <= maxRadius; r++) {
+    const score = (histogram[r - 1] + histogram[r] + histogram[r + 1]) / r;
+    if (score > best) {
+      best = score;
+      radius = r;
+    }
+  }
+  if (radius === 0) return null;
+  // A stroke's inner and outer edges both make a peak; take the outer one,
+  // which is where a traced outline runs
+  for (let r = Math.min(maxRadius, radius + STROKE_WIDTH); r > radius; r--) {
+    const score = (histogram[r - 1] + histogram[r] + histogram[r + 1]) / r;
+    const next = (histogram[r] + histogram[r + 1] + histogram[r + 2]) / (r + 1);
+    const previous = (histogram[r - 2] + histogram[r - 1] + histogram[r]) / (r - 1);
+    if (score >= OUTER_EDGE_SHARE * best && score >= next && score > previous) {
+      radius = r;
+      break;
+    }
+  }
+  // Thick edges spread over a few radii; go to their outer side too
+  const peak = histogram[radius];
+  while (radius < maxRadius && histogram[radius + 1] >= OUTER_EDGE_SHARE * peak) radius++;
+
+  const band: Point[] = [];
+  for (const i of edgePixels) {
+    const x = i % width, y = (i - x) / width;
+    if (Math.abs(Math.hypot(x - center.x, y - center.y) - radius) <= BAND) band.push({ x, y });
+  }
+  const fit = fitCircle(snapToRidge(band, gradients, width, height));
+  // A few stray pixels can fit some other circle entirely
+  if (!fit || fit.radius < minRadius || fit.radius > maxRadius) return null;
+
+  // Support: how many of the circle's 1px arcs (at most 360) have a pixel
+  const sectors = Math.min(360, Math.max(8, Math.round(2 * Math.PI * fit.radius)));
+  const covered = new Uint8Array(sectors);
+  for (const p of band) {
+    const angle = Math.atan2(p.y - fit.center.y, p.x - fit.center.x) + Math.PI;
+    covered[Math.min(sectors - 1, Math.floor((angle / (2 * Math.PI)) * sectors))] = 1;
+  }
+  const support = covered.reduce((sum, c) => sum + c, 0) / sectors;
+  return { center: fit.center, radius: fit.radius, support, residual: fit.residual };
+}
+
+export interface LineSegment {
+  start: Point;
+  end: Point;
+  /** Fraction of the segment's length that has edge pixels on it, 0-1. */
+  support: number;
+}
+
+export interface HoughLineOptions {
+  /** Votes a line needs before it is followed through the edge map. */
+  minVotes: number;
+  /** Shortest segment (px) to report. */
+  minLength: number;
+  /** Longest run (px) without edge pixels a segment may bridge. */
+  maxGap: number;
+}
+
+// Line directions are 1° apart.
+const THETA_STEPS = 180;
+// The middle third of a segment's edge pixels may sit this far (px) off
+// the line through its outer thirds; further, and it is part of a curve.
+const MAX_BOW = 1;
+// How far (px) either side of a segment its edge pixels are looked for.
+const BOW_REACH = 6;
+// Segments within `STROKE_WIDTH` and this close to parallel are the two
+// edges of one stroke.
+const PARALLEL_DEGREES = 3;
+
+/**
+ * The progressive probabilistic Hough transform (Matas, Galambos &
+ * Kittler): edge pixels vote one at a time, in a fixed shuffled order.
+ * As soon as one line has enough votes it is followed through the edge map
+ * from the pixel that tipped it, across gaps up to `maxGap`. A long enough
+ * segment is reported, and its pixels leave the map and take their votes
+ * back, so they can't feed another line. The two edges of a thick stroke
+ * are merged into one segment down its middle.
+ */
+export function houghLines(
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  options: HoughLineOptions
+): LineSegment[] {
+  const rhoMax = Math.ceil(Math.hypot(width, height));
+  const rhoSize = 2 * rhoMax + 1;
+  const cos = new Float64Array(THETA_STEPS);
+  const sin = new Float64Array(THETA_STEPS);
+  for (let t = 0; t < THETA_STEPS; t++) {
+    cos[t] = Math.cos((t * Math.PI) / THETA_STEPS);
+    sin[t] = Math.sin((t * Math.PI) / THETA_STEPS);
+  }
+  const rhoOf = (x: number, y: number, t: number) => Math.round(x * cos[t] + y * sin[t]) + rhoMax;
+
+  const remaining = new Uint8Array(edges.length);
+  const voted = new Uint8Array(edges.length);
+  const pixels: number[] = [];
+  for (let i = 0; i < edges.length; i++) {
+    if (edges[i] !== 0) {
+      remaining[i] = 1;
+      pixels.push(i);
+    }
+  }
+  shuffle(pixels);
+  const accumulator = new Int32Array(THETA_STEPS * rhoSize);
+  const isEdge = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && remaining[y * width + x] === 1;
+
+  const segments: LineSegment[] = [];
+  for (const i of pixels) {
+    if (!remaining[i]) continue;
+    const x = i % width, y = (i - x) / width;
+    let best = -1;
+    let bestVotes = options.minVotes - 1;
+    for (let t = 0; t < THETA_STEPS; t++) {
+      const v = ++accumulator[t * rhoSize + rhoOf(x, y, t)];
+      if (v > bestVotes) {
+        bestVotes = v;
+        best = t;
+      }
+    }
+    voted[i] = 1;
+    if (best === -1) continue;
+
+    // Follow the line both ways, a pixel at a time along its longer axis,
+    // counting a pixel to either side as on it.
+    const dx = -sin[best], dy = cos[best];
+    const step = 1 / Math.max(Math.abs(dx), Math.abs(dy));
+    const nx = cos[best], ny = sin[best];
+    const onLine = (px: number, py: number) =>
+      [-1, 0, 1].some((k) => isEdge(Math.round(px + k * nx), Math.round(py + k * ny)));
+    const ends: Point[] = [];
+    for (const sign of [1, -1]) {
+      let last = { x, y };
+      let gap = 0;
+      for (let s = 1; ; s++) {
+        const px = x + sign * s * step * dx, py = y + sign * s * step * dy;
+        if (px < 0 || px > width - 1 || py < 0 || py > height - 1) break;
+        if (onLine(px, py)) {
+          last = { x: Math.round(px), y: Math.round(py) };
+          gap = 0;
+        } else if (++gap > options.maxGap) {
+          break;
+        }
+      }
+      ends.push(last);
+    }
+    const [end, start] = ends;
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    if (length < options.minLength || bow(remaining, width, height, start, end) > MAX_BOW) continue;
+
+    // Take the segment's pixels out of the map, and their votes back
+    const steps = Math.max(1, Math.round(length * Math.max(Math.abs(dx), Math.abs(dy))));
+    let covered = 0;
+    const taken: Point[] = [];
+    for (let s = 0; s <= steps; s++) {
+      const px = start.x + ((end.x - start.x) * s) / steps;
+      const py = start.y + ((end.y - start.y) * s) / steps;
+      if (onLine(px, py)) covered++;
+      for (let k = -3; k <= 3; k++) {
+        const qx = Math.round(px + k * nx), qy = Math.round(py + k * ny);
+        if (!isEdge(qx, qy)) continue;
+        const q = qy * width + qx;
+        remaining[q] = 0;
+        taken.push({ x: qx, y: qy });
+        if (voted[q]) {
+          for (let t = 0; t < THETA_STEPS; t++) accumulator[t * rhoSize + rhoOf(qx, qy, t)]--;
+        }
+      }
+    }
+    segments.push({ ...fitSegment(taken), support: covered / (steps + 1) });
+  }
+  return mergeStrokeEdges(segments);
+}
+
+/**
+ * The least-squares line through a segment's pixels, between the
+ * outermost of them. The segment as followed runs at one of the
+ * accumulator's whole-degree angles, from pixel to pixel; the fit runs
+ * down the middle of them.
+ */
+function fitSegment(points: Point[]): Pick<LineSegment, "start" | "end"> {
+  const n = points.length;
+  let meanX = 0, meanY = 0;
+  for (const p of points) {
+    meanX += p.x / n;
+    meanY += p.y / n;
+  }
+  let sxx = 0, sxy = 0, syy = 0;
+  for (const p of points) {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+    syy += (p.y - meanY) ** 2;
+  }
+  // The direction the pixels spread out along most
+  const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+  const ux = Math.cos(angle), uy = Math.sin(angle);
+  let low = Infinity, high = -Infinity;
+  for (const p of points) {
+    const t = (p.x - meanX) * ux + (p.y - meanY) * uy;
+    low = Math.min(low, t);
+    high = Math.max(high, t);
+  }
+  return {
+    start: { x: meanX + low * ux, y: meanY + low * uy },
+    end: { x: meanX + high * ux, y: meanY + high * uy },
+  };
+}
+
+/**
+ * Merges segments that run side by side (parallel, within
+ * `STROKE_WIDTH` of each other and overlapping along their length) into
+ * one segment midway between them that spans both.
+ */
+function mergeStrokeEdges(segments: LineSegment[]): LineSegment[] {
+  const merged = [...segments].sort((a, b) => segmentLength(b) - segmentLength(a));
+  for (let i = 0; i < merged.length; i++) {
+    for (let j = merged.length - 1; j > i; j--) {
+      const a = merged[i], b = merged[j];
+      const length = segmentLength(a);
+      const ux = (a.end.x - a.start.x) / length, uy = (a.end.y - a.start.y) / length;
+      const cross = Math.abs(ux * (b.end.y - b.start.y) - uy * (b.end.x - b.start.x)) / segmentLength(b);
+      if (cross > Math.sin((PARALLEL_DEGREES * Math.PI) / 180)) continue;
+      // b's ends in a's frame: along the line, and across it
+      const along = (p: Point) => (p.x - a.start.x) * ux + (p.y - a.start.y) * uy;
+      const across = (p: Point) => (p.y - a.start.y) * ux - (p.x - a.start.x) * uy;
+      const offset = (across(b.start) + across(b.end)) / 2;
+      const [from, to] = [along(b.start), along(b.end)].sort((p, q) => p - q);
+      if (Math.abs(offset) > STROKE_WIDTH || to < 0 || from > length) continue;
+
+      const lo = Math.min(0, from), hi = Math.max(length, to);
+      const shift = offset / 2;
+      const at = (t: number) => ({ x: a.start.x + t * ux - shift * uy, y: a.start.y + t * uy + shift * ux });
+      merged[i] = { start: at(lo), end: at(hi), support: Math.max(a.support, b.support) };
+      merged.splice(j, 1);
+    }
+  }
+  return merged;
+}
+
+/**
+ * How far the edge pixels along the middle third of the line from `start`
+ * to `end` sit off the line, relative to those along its outer thirds:
+ * near 0 for a straight edge, and about half the sagitta for an arc.
+ */
+function bow(edges: Uint8Array, width: number, height: number, start: Point, end: Point): number {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const ux = (end.x - start.x) / length, uy = (end.y - start.y) / length;
+  const sums = [0, 0, 0];
+  const counts = [0, 0, 0];
+  const x0 = Math.max(0, Math.floor(Math.min(start.x, end.x)) - BOW_REACH);
+  const x1 = Math.min(width - 1, Math.ceil(Math.max(start.x, end.x)) + BOW_REACH);
+  const y0 = Math.max(0, Math.floor(Math.min(start.y, end.y)) - BOW_REACH);
+  const y1 = Math.min(height - 1, Math.ceil(Math.max(start.y, end.y)) + BOW_REACH);
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      if (!edges[y * width + x]) continue;
+      const along = (x - start.x) * ux + (y - start.y) * uy;
+      const across = (y - start.y) * ux - (x - start.x) * uy;
+      if (along < 0 || along > length || Math.abs(across) > BOW_REACH) continue;
+      const third = Math.min(2, Math.floor((3 * along) / length));
+      sums[third] += across;
+      counts[third]++;
+    }
+  }
+  if (counts.includes(0)) return 0;
+  const [first, middle, last] = sums.map((sum, i) => sum / counts[i]);
+  return Math.abs(middle - (first + last) / 2);
+}
+
+function segmentLength(segment: LineSegment): number {
+  return Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+}
+
+/** Shuffles in place with a fixed-seed generator, so runs repeat exactly. */
+function shuffle(values: number[]): void {
+  let seed = 0x2545f491;
+  for (let i = values.length - 1; i > 0; i--) {
+    // xorshift32
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    const j = (seed >>> 0) % (i + 1);
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
@@ -0,0 +1,383 @@
+import type { PixelBuffer } from "./detector-core.js";
+
+// --- FLAT PIXEL BUFFERS ---
+// Every stage here works on one flat typed array per image, indexed as
+// `y * width + x`. That is far cheaper than a `number[][]` grid on large
+// images: one allocation instead of one per row, and no boxed numbers.
+
+/** Edge maps mark edge pixels with this value and background with 0. */
+export const EDGE = 255;
+
+/**
+ * Converts RGBA pixels into one grayscale byte per pixel,
+ * using the standard "luminosity" formula for a good B&W image.
+ */
+export function toGrayscale(data: PixelBuffer, width: number, height: number): Uint8Array {
+  const size = width * height;
+  const gray = new Uint8Array(size);
+  for (let i = 0, j = 0; i < size; i++, j += 4) {
+    gray[i] = Math.round(0.299 * data[j] + 0.587 * data[j + 1] + 0.114 * data[j + 2]);
+  }
+  return gray;
+}
+
+// --- COLOR ---
+// Two colors can have the same luminosity and so look identical in
+// grayscale. Working in CIE L*a*b* keeps hue and saturation differences
+// as well, and a distance in it (ΔE) roughly matches how different two
+// colors look.
+
+/** How much a unit of L*, a* or b* is worth on the 0-255 gray scale. */
+const LAB_SCALE = 2.55;
+
+/**
+ * Converts RGBA pixels (sRGB, D65 white) to three L*a*b* channels,
+ * scaled so L* spans 0-255 like a grayscale image and a color difference
+ * reads on the same scale as a gray-level one.
+ */
+export function toLab(data: PixelBuffer, width: number, height: number): Float32Array[] {
+  const size = width * height;
+  const l = new Float32Array(size);
+  const a = new Float32Array(size);
+  const b = new Float32Array(size);
+  const linear = (v: number) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  for (let i = 0, j = 0; i < size; i++, j += 4) {
+    const r = linear(data[j]);
+    const g = linear(data[j + 1]);
+    const bl = linear(data[j + 2]);
+    // XYZ relative to the D65 white point
+    const fx = f((0.4124 * r + 0.3576 * g + 0.1805 * bl) / 0.95047);
+    const fy = f(0.2126 * r + 0.7152 * g + 0.0722 * bl);
+    const fz = f((0.0193 * r + 0.1192 * g + 0.9505 * bl) / 1.08883);
+    l[i] = (116 * fy - 16) * LAB_SCALE;
+    a[i] = 500 * (fx - fy) * LAB_SCALE;
+    b[i] = 200 * (fy - fz) * LAB_SCALE;
+  }
+  return [l, a, b];
+}
+
+/**
+ * Sobel gradients of a multi-channel image: at each pixel, those of
+ * whichever channel changes the most there.
+ */
+export function colorSobelGradients(
+  channels: (Uint8Array | Float32Array)[],
+  width: number,
+  height: number
+): Gradients {
+  const combined = sobelGradients(channels[0], width, height);
+  for (const channel of channels.slice(1)) {
+    const { gx, gy, magnitude } = sobelGradients(channel, width, height);
+    for (let i = 0; i < magnitude.length; i++) {
+      if (magnitude[i] > combined.magnitude[i]) {
+        combined.gx[i] = gx[i];
+        combined.gy[i] = gy[i];
+        combined.magnitude[i] = magnitude[i];
+      }
+    }
+  }
+  return combined;
+}
+
+/**
+ * How far each pixel's color is (ΔE, clamped to 0-255) from the median
+ * color of the image border: a grayscale-like image in which anything
+ * that isn't background is light, whatever its hue.
+ */
+export function backgroundDistance(channels: Float32Array[], width: number, height: number): Uint8Array {
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+  const background = channels.map((channel) => {
+    const values = border.map((i) => channel[i]).sort((p, q) => p - q);
+    return values[Math.floor(values.length / 2)];
+  });
+
+  const out = new Uint8Array(width * height);
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels.length; c++) {
+      const d = channels[c][i] - background[c];
+      sum += d * d;
+    }
+    out[i] = Math.min(255, Math.round(Math.sqrt(sum)));
+  }
+  return out;
+}
+
+/**
+ * Runs a Sobel operator over the image and returns the gradient
+ * magnitude at every pixel. The 1px border is left at 0.
+ */
+export function sobelMagnitude(gray: Uint8Array, width: number, height: number): Float32Array {
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const nw = gray[i - width - 1], n = gray[i - width], ne = gray[i - width + 1];
+      const w = gray[i - 1], e = gray[i + 1];
+      const sw = gray[i + width - 1], s = gray[i + width], se = gray[i + width + 1];
+      // Kernels: gx = [-1 0 1; -2 0 2; -1 0 1], gy = [-1 -2 -1; 0 0 0; 1 2 1]
+      const gx = (ne + 2 * e + se) - (nw + 2 * w + sw);
+      const gy = (sw + 2 * s + se) - (nw + 2 * n + ne);
+      magnitude[i] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  return magnitude;
+}
+
+export interface Gradients {
+  /** Horizontal derivative (positive when the image gets brighter to the right). */
+  gx: Float32Array;
+  /** Vertical derivative (positive when the image gets brighter downwards). */
+  gy: Float32Array;
+  magnitude: Float32Array;
+}
+
+/**
+ * Like `sobelMagnitude`, but also keeps both derivatives,
+ * for stages that need the edge direction.
+ * The 1px border is left at 0.
+ */
+export function sobelGradients(
+  image: Uint8Array | Float32Array,
+  width: number,
+  height: number
+): Gradients {
+  const gxOut = new Float32Array(width * height);
+  const gyOut = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const nw = image[i - width - 1], n = image[i - width], ne = image[i - width + 1];
+      const w = image[i - 1], e = image[i + 1];
+      const sw = image[i + width - 1], s = image[i + width], se = image[i + width + 1];
+      // Kernels: gx = [-1 0 1; -2 0 2; -1 0 1], gy = [-1 -2 -1; 0 0 0; 1 2 1]
+      const gx = (ne + 2 * e + se) - (nw + 2 * w + sw);
+      const gy = (sw + 2 * s + se) - (nw + 2 * n + ne);
+      gxOut[i] = gx;
+      gyOut[i] = gy;
+      magnitude[i] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  return { gx: gxOut, gy: gyOut, magnitude };
+}
+
+/**
+ * Marks every pixel whose gradient magnitude is over `threshold` as an edge.
+ */
+export function thresholdEdges(magnitude: Float32Array, threshold: number): Uint8Array {
+  const edges = new Uint8Array(magnitude.length);
+  for (let i = 0; i < magnitude.length; i++) {
+    if (magnitude[i] > threshold) edges[i] = EDGE;
+  }
+  return edges;
+}
+
+// --- CANNY EDGE DETECTION ---
+
+export interface CannyOptions {
+  /** Standard deviation of the Gaussian smoothing, in pixels. 0 skips smoothing. */
+  sigma: number;
+  /** Weak edge pixels above this join the edge map if they touch a strong one. */
+  lowThreshold: number;
+  /** Pixels above this are strong edges and always kept. */
+  highThreshold: number;
+}
+
+/**
+ * The Canny edge detector: Gaussian smoothing, Sobel gradients,
+ * non-maximum suppression to thin edges to one pixel, and hysteresis
+ * to keep weak edges only where they continue a strong one.
+ * Returns an edge map in the same format as `thresholdEdges`.
+ */
+export function cannyEdges(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  options: CannyOptions
+): Uint8Array {
+  return colorCannyEdges([gray], width, height, options);
+}
+
+/**
+ * `cannyEdges` for a multi-channel image, smoothing each channel and
+ * following whichever one changes the most (see `colorSobelGradients`).
+ */
+export function colorCannyEdges(
+  channels: (Uint8Array | Float32Array)[],
+  width: number,
+  height: number,
+  options: CannyOptions
+): Uint8Array {
+  const smoothed = channels.map((channel) => gaussianBlur(channel, width, height, options.sigma));
+  const { gx, gy, magnitude } = colorSobelGradients(smoothed, width, height);
+  const thin = nonMaximumSuppression(gx, gy, magnitude, width, height);
+  return hysteresis(thin, width, height, options.lowThreshold, options.highThreshold);
+}
+
+/**
+ * Blurs the image with a separable Gaussian kernel (radius 3σ).
+ * Pixels past the border are treated as copies of the nearest edge pixel.
+ */
+export function gaussianBlur(
+  image: Uint8Array | Float32Array,
+  width: number,
+  height: number,
+  sigma: number
+): Float32Array {
+  if (sigma <= 0) return Float32Array.from(image);
+
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let k = -radius; k <= radius; k++) {
+    const weight = Math.exp(-(k * k) / (2 * sigma * sigma));
+    kernel[k + radius] = weight;
+    sum += weight;
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= sum;
+
+  // Horizontal pass, then vertical pass
+  const temp = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        acc += image[row + sx] * kernel[k + radius];
+      }
+      temp[row + x] = acc;
+    }
+  }
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        acc += temp[sy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = acc;
+    }
+  }
+  return out;
+}
+
+/**
+ * Replaces each pixel with the median of the (2·radius + 1)² square
+ * around it, which wipes out isolated specks without blurring edges the
+ * way a Gaussian does. The window is cut short at the image border.
+ */
+export function medianFilter<T extends Uint8Array | Float32Array>(
+  image: T,
+  width: number,
+  height: number,
+  radius: number
+): T {
+  const out = image.slice() as T;
+  const r = Math.round(radius);
+  if (r < 1) return out;
+  const window: number[] = [];
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - r), y1 = Math.min(height - 1, y + r);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - r), x1 = Math.min(width - 1, x + r);
+      window.length = 0;
+      for (let wy = y0; wy <= y1; wy++) {
+        for (let wx = x0; wx <= x1; wx++) window.push(image[wy * width + wx]);
+      }
+      window.sort((a, b) => a - b);
+      out[y * width + x] = window[window.length >> 1];
+    }
+  }
+  return out;
+}
+
+/**
+ * Keeps a pixel's magnitude only if it is a local maximum across the edge,
+ * i.e. along the gradient direction rounded to 0°, 45°, 90° or 135°.
+ * Everything else is zeroed, leaving ridges one pixel wide.
+ */
+function nonMaximumSuppression(
+  gx: Float32Array,
+  gy: Float32Array,
+  magnitude: Float32Array,
+  width: number,
+  height: number
+): Float32Array {
+  const out = new Float32Array(width * height);
+  const TAN_22_5 = Math.tan(Math.PI / 8);
+  const TAN_67_5 = Math.tan((3 * Math.PI) / 8);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m === 0) continue;
+      const ax = Math.abs(gx[i]);
+      const ay = Math.abs(gy[i]);
+      // Offset to the neighbor on one side of the edge (the other is -offset)
+      let offset: number;
+      if (ay <= ax * TAN_22_5) {
+        offset = 1; // Gradient points left/right
+      } else if (ay >= ax * TAN_67_5) {
+        offset = width; // Gradient points up/down
+      } else if (gx[i] * gy[i] > 0) {
+        offset = width + 1; // Down-right diagonal
+      } else {
+        offset = width - 1; // Down-left diagonal
+      }
+      // Ties go to the first pixel of a plateau so flat ridges stay one pixel wide.
+      if (m > magnitude[i - offset] && m >= magnitude[i + offset]) {
+        out[i] = m;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Double thresholding with edge tracking: pixels above `high` seed the
+ * edge map, and pixels above `low` are added while they stay 8-connected
+ * to a seed.
+ */
+function hysteresis(
+  magnitude: Float32Array,
+  width: number,
+  height: number,
+  low: number,
+  high: number
+): Uint8Array {
+  const edges = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let i = 0; i < magnitude.length; i++) {
+    if (magnitude[i] > high && edges[i] === 0) {
+      edges[i] = EDGE;
+      stack.push(i);
+      while (stack.length > 0) {
+        const p = stack.pop()!;
+        const px = p % width;
+        const py = (p - px) / width;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = px + dx;
+            const ny = py + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            const n = ny * width + nx;
+            if (edges[n] === 0 && magnitude[n] > low) {
+              edges[n] = EDGE;
+              stack.push(n);
+            }
+          }
+        }
+      }
+    }
+  }
+  return edges;
+}
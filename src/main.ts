@@ -3,612 +3,346 @@ import "./style.css";
 import { SelectionManager } from "./ui-utils.js";
 // @ts-ignore
 import { EvaluationManager } from "./evaluation-manager.js";
+import { ShapeDetectorCore } from "./detector-core.js";
+import type {
+  CandidateTrace,
+  DetectedShape,
+  DetectionControl,
+  DetectionResult,
+  DetectionStage,
+  Point,
+  StageImages,
+} from "./detector-core.js";
+import { DetectionWorkerClient } from "./detection-client.js";
+import { angleDifference, orientedBoxCorners } from "./geometry.js";
+import { templateFromDescriptors } from "./template-matching.js";
+import type { ShapeTemplate } from "./template-matching.js";
+import type {
+  ColorMode,
+  ContourSource,
+  DetectorOptions,
+  EdgeMode,
+  HoughMode,
+} from "./detector-options.js";
+
+// The types live with the detection core; re-export them so existing
+// `import ... from "./main.js"` code keeps working.
+export type {
+  Point,
+  Contour,
+  DetectedShape,
+  DetectionResult,
+  PixelBuffer,
+  DetectionStage,
+  DetectionProgress,
+  DetectionControl,
+  PreprocessingStep,
+  CandidateTrace,
+  CandidateFeatures,
+  CandidateRule,
+  StageImages,
+  TemplateMatch,
+} from "./detector-core.js";
+export type { OrientedBox, Quadrilateral } from "./geometry.js";
+export type { Color, ShapeStyle } from "./shape-style.js";
+export type { Morphology } from "./morphology.js";
+export type { Moments } from "./moments.js";
+export type { ShapeDescriptors } from "./descriptors.js";
+export type { ShapeTemplate } from "./template-matching.js";
+export { templateFromContour, templateFromDescriptors } from "./template-matching.js";
+export type { ShapeClassifier, ShapeFeatures, ShapeHypothesis } from "./classifier.js";
+export type {
+  ColorMode,
+  ContourSource,
+  DetectorOptions,
+  EdgeMode,
+  HoughMode,
+  MatchMethod,
+} from "./detector-options.js";
+export { DEFAULT_DETECTOR_OPTIONS } from "./detector-options.js";
 
-// --- TYPE DEFINITIONS ---
-export interface Point {
-  x: number;
-  y: number;
-}
-type Contour = Point[];
-export interface DetectedShape {
-  type: "circle" | "triangle" | "rectangle" | "pentagon" | "star";
-  confidence: number;
-  boundingBox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  center: Point;
-  area: number;
-}
-export interface DetectionResult {
-  shapes: DetectedShape[];
-  processingTime: number;
-  imageWidth: number;
-  imageHeight: number;
-}
+/**
+ * The debug layers the viewer can draw. "grayscale" and "sobel" take the
+ * picture's place and "edges" paints the edge map over it; the rest are
+ * drawn from the candidate trace, under the detections. All of them need
+ * a result from a run with the `debug` option.
+ */
+export type OverlayLayer = "grayscale" | "sobel" | "edges" | "contours" | "hulls" | "vertices" | "rejected";
 
 // --- MAIN CLASS ---
 /**
- * This is the main class that does all the shape detection work.
+ * The browser wrapper around `ShapeDetectorCore`.
+ * It loads images onto a canvas, runs the core in a Web Worker
+ * (or on the main thread where workers aren't available, or when
+ * custom classifiers are given),
+ * and draws the results back on top.
  */
 export class ShapeDetector {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private width: number = 0;
-  private height: number = 0;
-
-  constructor(canvas: HTMLCanvasElement) {
+  private core: ShapeDetectorCore;
+  private workerClient: DetectionWorkerClient | null = null;
+  // Classifiers are functions, which can't be posted to the worker
+  private hasClassifiers: boolean;
+  private layers: OverlayLayer[] = [];
+  // The image on the canvas and what was found in it, for redrawing
+  private lastRun: { imageData: ImageData; result: DetectionResult } | null = null;
+
+  constructor(canvas: HTMLCanvasElement, options: Partial<DetectorOptions> = {}) {
     this.canvas = canvas;
     this.ctx = canvas.getContext("2d")!;
+    // Building the core also validates the options up front.
+    this.core = new ShapeDetectorCore(options);
+    this.hasClassifiers = (options.classifiers?.length ?? 0) > 0;
+    if (typeof Worker !== "undefined") {
+      this.workerClient = new DetectionWorkerClient(options);
+    }
   }
 
   /**
    * This is the main function. It takes the raw image data
    * and returns all the shapes it finds.
+   * Any `overrides` apply to this call only. `control` reports
+   * per-stage progress and can cancel the run with an `AbortSignal`.
    */
-  async detectShapes(imageData: ImageData): Promise<DetectionResult> {
-    const startTime = performance.now();
-    this.width = imageData.width;
-    this.height = imageData.height;
-
-    // Step 1: Turn the image black and white (grayscale)
-    const grayGrid = this.createGrayscaleGrid(imageData);
-
-    // Step 2: Find all the outlines (edges)
-    const edgeGrid = this.applySobelEdgeDetection(grayGrid);
-
-    // Step 3: Follow the outlines to find individual shapes (contours)
-    // We pass a copy so the tracing algorithm can mark where it's been
-    const contours = this.findContours(edgeGrid.map(row => [...row]));
-
-    // Step 4: Figure out what each shape is (circle, triangle, etc.)
-    const shapes = this.analyzeContours(contours);
-
-    // Step 5: Draw our findings on the canvas
-    this.drawDetectionsToCanvas(imageData, shapes);
-
-    const processingTime = performance.now() - startTime;
-    return {
-      shapes,
-      processingTime,
-      imageWidth: this.width,
-      imageHeight: this.height,
-    };
+  async detectShapes(
+    imageData: ImageData,
+    overrides?: Partial<DetectorOptions>,
+    control?: DetectionControl
+  ): Promise<DetectionResult> {
+    const { data, width, height } = imageData;
+    const onMainThread = this.hasClassifiers || (overrides?.classifiers?.length ?? 0) > 0;
+    const result = this.workerClient && !onMainThread
+      ? await this.workerClient.detectShapes(data, width, height, overrides, control)
+      : this.core.detectShapes(data, width, height, overrides, control);
+
+    // Draw our findings on the canvas
+    this.lastRun = { imageData, result };
+    this.drawDetectionsToCanvas(imageData, result);
+
+    return result;
   }
 
   /**
-   * A helper function to load the user's image file onto our canvas.
+   * Picks the debug layers to draw and redraws the last result with them.
+   * Returns false if that result has no debug data to draw them from:
+   * the image then needs detecting again with the `debug` option.
    */
-  loadImage(file: File): Promise<ImageData> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        this.canvas.width = img.width;
-        this.canvas.height = img.height;
-        this.ctx.drawImage(img, 0, 0);
-        const imageData = this.ctx.getImageData(0, 0, img.width, img.height);
-        resolve(imageData);
-      };
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
+  showLayers(layers: OverlayLayer[]): boolean {
+    this.layers = layers;
+    if (!this.lastRun) return true;
+    this.drawDetectionsToCanvas(this.lastRun.imageData, this.lastRun.result);
+    return layers.length === 0 || this.lastRun.result.candidates !== undefined;
   }
 
-  // --- STEP 1: IMAGE PRE-PROCESSING ---
-
   /**
-   * Converts the flat RGBA image data into a 2D grid of grayscale values.
-   * This is much easier to work with.
+   * A helper function to load the user's image file onto our canvas.
    */
-  private createGrayscaleGrid(imageData: ImageData): number[][] {
-    const data = imageData.data;
-    const grid: number[][] = [];
-    for (let y = 0; y < this.height; y++) {
-      const row: number[] = [];
-      for (let x = 0; x < this.width; x++) {
-        const index = (y * this.width + x) * 4;
-        const r = data[index];
-        const g = data[index + 1];
-        const b = data[index + 2];
-        // We use the standard "luminosity" formula for a good B&W image.
-        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-        row.push(Math.round(gray));
-      }
-      grid.push(row);
-    }
-    return grid;
+  async loadImage(file: File): Promise<ImageData> {
+    const img = await this.decodeImage(file);
+    this.lastRun = null;
+    this.canvas.width = img.width;
+    this.canvas.height = img.height;
+    this.ctx.drawImage(img, 0, 0);
+    return this.ctx.getImageData(0, 0, img.width, img.height);
   }
 
-  // --- STEP 2: EDGE DETECTION ---
-
   /**
-   * Runs a Sobel operator over the image. This is a classic way
-   * to find all the vertical and horizontal edges.
+   * Makes a template out of a reference image (see
+   * `ShapeDetectorCore.createTemplate`), leaving the canvas alone.
+   * Resolves to null if the image has no contour to make one of.
    */
-  private applySobelEdgeDetection(grid: number[][]): number[][] {
-    // Sobel kernels for detecting horizontal (gy) and vertical (gx) edges
-    const kernelX: number[][] = [
-      [-1, 0, 1], [-2, 0, 2], [-1, 0, 1],
-    ];
-    const kernelY: number[][] = [
-      [-1, -2, -1], [0, 0, 0], [1, 2, 1],
-    ];
-    const edgeGrid: number[][] = Array.from({ length: this.height }, () =>
-      Array(this.width).fill(0)
-    );
-    // Slide the kernels over every pixel (skipping the 1px border)
-    for (let y = 1; y < this.height - 1; y++) {
-      for (let x = 1; x < this.width - 1; x++) {
-        let gx = 0;
-        let gy = 0;
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const pixelVal = grid[y + ky]?.[x + kx] ?? 0;
-            gx += pixelVal * kernelX[ky + 1][kx + 1];
-            gy += pixelVal * kernelY[ky + 1][kx + 1];
-          }
-        }
-        // Calculate the total strength (magnitude) of the edge
-        const magnitude = Math.sqrt(gx * gx + gy * gy);
-        // If the edge is "sharp" enough (over 128), mark it as an edge (255)
-        edgeGrid[y][x] = magnitude > 128 ? 255 : 0;
-      }
-    }
-    return edgeGrid;
+  async createTemplate(
+    file: File,
+    label: string,
+    overrides?: Partial<DetectorOptions>
+  ): Promise<ShapeTemplate | null> {
+    const img = await this.decodeImage(file);
+    const scratch = document.createElement("canvas");
+    scratch.width = img.width;
+    scratch.height = img.height;
+    const ctx = scratch.getContext("2d")!;
+    ctx.drawImage(img, 0, 0);
+    const { data, width, height } = ctx.getImageData(0, 0, img.width, img.height);
+    return this.core.createTemplate(data, width, height, label, overrides);
   }
 
-  // --- STEP 3: CONTOUR TRACING ---
-  
-  /**
-   * Scans the edge grid, pixel by pixel. When it finds a new edge pixel,
-   * it calls `traceContour` to "walk" around the entire shape.
-   */
-  private findContours(grid: number[][]): Contour[] {
-    const contours: Contour[] = [];
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        if (grid[y][x] === 255) { // Found the start of a new shape
-          grid[y][x] = 128; // Mark this pixel as "visiting"
-          const newContour = this.traceContour({ x, y }, grid);
-          
-          // --- Tuned ---
-          // Filter out tiny contours (noise). Set to 30 to catch the small triangle.
-          if (newContour.length > 30) { 
-            contours.push(newContour);
-          }
-        }
-      }
-    }
-    return contours;
+  private decodeImage(file: File): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = URL.createObjectURL(file);
+    });
   }
 
   /**
-   * "Walks" along a path of connected edge pixels (a contour)
-   * using the Moore-Neighbor tracing algorithm.
+   * Draws the original image and overlays the final detections,
+   * with any debug layers in between.
    */
-  private traceContour(startPoint: Point, grid: number[][]): Contour {
-    const contour: Contour = [startPoint];
-    let currentPoint = startPoint;
-    // Neighbors are checked in clockwise order (E, SE, S, SW, W, NW, N, NE)
-    const neighbors = [
-      { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }, { x: -1, y: 1 },
-      { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 }
-    ];
-    let searchStartIndex = 4; // Start search from behind where we just came from
-    let traceCount = 0;
-    const MAX_TRACE = 20000; // Safety break, just in case
-
-    while (traceCount++ < MAX_TRACE) {
-      let foundNext = false;
-      for (let i = 0; i < neighbors.length; i++) {
-        const neighborIndex = (searchStartIndex + i) % neighbors.length;
-        const neighbor = neighbors[neighborIndex];
-        const nextX = currentPoint.x + neighbor.x;
-        const nextY = currentPoint.y + neighbor.y;
-
-        // Check if we're off the grid
-        if (nextX < 0 || nextX >= this.width || nextY < 0 || nextY >= this.height) {
-          continue;
-        }
-
-        // Are we back where we started?
-        if (nextX === startPoint.x && nextY === startPoint.y) {
-          return contour; // Contour is complete!
-        }
+  private drawDetectionsToCanvas(imageData: ImageData, result: DetectionResult): void {
+    // 1. Draw the original image, or the stage picked in its place
+    const { stageImages, candidates } = result;
+    this.ctx.putImageData(stageImages ? this.stageImage(imageData, stageImages) : imageData, 0, 0);
+    if (candidates) this.drawCandidateLayers(candidates);
 
-        // Is this an edge pixel (255) or one we're visiting (128)?
-        if (grid[nextY][nextX] === 255 || grid[nextY][nextX] === 128) {
-          const nextPoint = { x: nextX, y: nextY };
-          contour.push(nextPoint);
-          if (grid[nextY][nextX] === 255) {
-            grid[nextY][nextX] = 128; // Mark as visited
-          }
-          currentPoint = nextPoint; // Update our position
-          // Next time, start searching from behind this new pixel
-          searchStartIndex = (neighborIndex + 5) % 8;
-          foundNext = true;
-          break; // Found the next point, stop searching neighbors
-        }
-      }
-      if (!foundNext) {
-         // Hit a dead end
-         return contour;
-      }
-    }
-    if (traceCount >= MAX_TRACE) {
-        console.error("Error: Max trace length exceeded.");
-    }
-    return contour;
-  }
+    // 2. Loop through each detected shape
+    for (const shape of result.shapes) {
+      const { type, boundingBox, center } = shape;
 
-  // --- STEP 4: ANALYSIS & CLASSIFICATION ---
+      // 3. Set text style (a template match goes by its template's label)
+      const text = `${shape.label ?? type} (${(shape.confidence * 100).toFixed(0)}%)`;
+      this.ctx.font = "16px Arial";
+      this.ctx.fillStyle = "rgba(255, 255, 0, 0.8)"; // Yellow
+      this.ctx.fillText(text, boundingBox.x, boundingBox.y - 5);
 
-  /**
-   * This is where we analyze all the contours we found.
-   */
-  private analyzeContours(contours: Contour[]): DetectedShape[] {
-    const shapes: DetectedShape[] = [];
-    const contourMetrics: any[] = [];
-
-    // 1. Get the metrics (area, center, etc.) for every contour
-    for (const contour of contours) {
-      const metrics = this.calculateMetrics(contour);
-      // --- Tuned ---
-      // Filter out tiny noise contours. Set to 50 to catch the small triangle.
-      if (metrics.area < 50) continue;
-      contourMetrics.push({ contour, metrics });
-    }
+      // 4. Draw bounding box
+      this.ctx.strokeStyle = "rgba(0, 255, 0, 0.8)"; // Green
+      this.ctx.lineWidth = 2;
+      this.ctx.strokeRect(boundingBox.x, boundingBox.y, boundingBox.width, boundingBox.height);
 
-    // 2. Filter out "inner" contours
-    // This handles the "donut" problem (e.g., a circle has an inner and outer edge).
-    // We only want the outer one.
-    const outerContoursMetrics = contourMetrics.filter(cm1 => {
-      let isInnerContour = false;
-      const c1 = cm1.metrics.center;
-      for (const cm2 of contourMetrics) {
-        if (cm1 === cm2) continue; // Don't compare with self
-        const c2 = cm2.metrics.center;
-        
-        // Check if centers are very close (meaning, same object)
-        const dist = Math.sqrt(Math.pow(c1.x - c2.x, 2) + Math.pow(c1.y - c2.y, 2));
-        if (dist < 15) { 
-          // If this contour is smaller, it must be the inner one.
-          if (cm2.metrics.area > cm1.metrics.area) {
-             isInnerContour = true;
-             break;
-          }
-        }
+      // 5. Draw a line along itself; for other shapes that are turned,
+      // the rotated box, dashed
+      if (shape.endpoints) {
+        const [start, end] = shape.endpoints;
+        this.ctx.strokeStyle = "rgba(255, 0, 255, 0.8)"; // Magenta
+        this.ctx.beginPath();
+        this.ctx.moveTo(start.x, start.y);
+        this.ctx.lineTo(end.x, end.y);
+        this.ctx.stroke();
+      } else if (type !== "circle" && angleDifference(shape.orientation, 0, 90) > 1) {
+        const corners = orientedBoxCorners(shape.orientedBox);
+        this.ctx.strokeStyle = "rgba(0, 200, 255, 0.8)"; // Cyan
+        this.ctx.setLineDash([6, 4]);
+        this.ctx.beginPath();
+        corners.forEach((p, i) => (i === 0 ? this.ctx.moveTo(p.x, p.y) : this.ctx.lineTo(p.x, p.y)));
+        this.ctx.closePath();
+        this.ctx.stroke();
+        this.ctx.setLineDash([]);
       }
-      return !isInnerContour; // Only keep contours that are *not* inner contours
-    });
 
-    // 3. Classify the remaining "real" shapes
-    for (const { contour, metrics } of outerContoursMetrics) {
-      const shape = this.classifyShape(contour, metrics);
-      if (shape) {
-        shapes.push(shape);
-      }
+      // 6. Draw center point
+      this.ctx.fillStyle = "rgba(255, 0, 0, 0.8)"; // Red
+      this.ctx.beginPath();
+      this.ctx.arc(center.x, center.y, 3, 0, 2 * Math.PI);
+      this.ctx.fill();
     }
-    return shapes;
   }
 
   /**
-   * This is the "brain". It takes a single contour and decides
-   * what shape it is.
+   * The picture for the image layers: the grayscale or Sobel magnitude
+   * image in place of the original (Sobel wins if both are on), with the
+   * edge map's pixels painted orange on top.
    */
-  private classifyShape(contour: Contour, metrics: any): DetectedShape | null {
-    // 1. Check for a Circle.
-    // We calculate "circularity" (a perfect circle is 1.0)
-    const perimeter = metrics.perimeter;
-    const circularity = (4 * Math.PI * metrics.area) / (perimeter * perimeter);
-
-    // --- Tuned ---
-    // Tuned to 0.80. This is "round enough" to be a circle.
-    if (circularity > 0.80) {
-      return {
-        type: 'circle',
-        confidence: Math.min(circularity, 0.99), 
-        ...metrics,
-      };
-    }
-    
-    // 2. Calculate "Solidity"
-    // This tells us if a shape is "solid" (like a pentagon)
-    // or has "holes" (like a star).
-    const hull = this.calculateConvexHull(contour);
-    const hullMetrics = this.calculateMetrics(hull);
-    let solidity = 0;
-    if (hullMetrics.area > 0) {
-      solidity = metrics.area / hullMetrics.area;
-    }
-
-    // 3. Simplify the contour to find its corners (vertices).
-    // --- Tuned ---
-    // Epsilon is our "corner sensitivity". Tuned to 6% of the perimeter.
-    const epsilon = 0.06 * metrics.perimeter;
-    const vertices = this.simplifyContour(contour, epsilon);
-    
-    // 4. Correct the vertex count.
-    // A closed loop (like a triangle) will return [p1, p2, p3, p1].
-    // We need to count this as 3 vertices, not 4.
-    let numVertices = vertices.length;
-    if (numVertices > 1) {
-      const first = vertices[0];
-      const last = vertices[numVertices - 1];
-      // Check if the first and last points are basically the same.
-      const dist = Math.sqrt(Math.pow(first.x - last.x, 2) + Math.pow(first.y - last.y, 2));
-      if (dist < 10) { // 10px tolerance
-        numVertices--; // It's a closed loop, so subtract one.
+  private stageImage(imageData: ImageData, stages: StageImages): ImageData {
+    const gray = this.layers.includes("sobel")
+      ? stages.sobelMagnitude
+      : this.layers.includes("grayscale") ? stages.grayscale : null;
+    const edges = this.layers.includes("edges");
+    if (!gray && !edges) return imageData;
+
+    const { width, height } = imageData;
+    const image = new ImageData(new Uint8ClampedArray(imageData.data), width, height);
+    const pixels = image.data;
+    for (let i = 0, j = 0; i < width * height; i++, j += 4) {
+      if (gray) {
+        // The clamped array caps a strong gradient at white
+        pixels[j] = pixels[j + 1] = pixels[j + 2] = gray[i];
+        pixels[j + 3] = 255;
+      }
+      if (edges && stages.map[i]) {
+        pixels[j] = 255;
+        pixels[j + 1] = 140;
+        pixels[j + 2] = 0;
+        pixels[j + 3] = 255;
       }
     }
-
-    // 5. Filter out text and lines.
-    // --- Tuned ---
-    // Filter out "skinny" shapes. If it's 5x wider than tall (or vice-versa),
-    // it's probably a line or text, not a real shape.
-    const { width, height } = metrics.boundingBox;
-    const aspectRatio = Math.max(width / (height || 1), height / (width || 1));
-    if (aspectRatio > 5.0) { // Tuned to 5.0
-        return null; // This is a line, not a shape.
-    }
-
-    // 6. Classify based on the final corner count.
-    let type: DetectedShape['type'] | null = null;
-    let confidence = 0.85; // A base confidence score
-    
-    // This is our logic for all the polygons.
-    switch (numVertices) {
-      case 3:
-        if (solidity > 0.9) { // Must be a solid shape
-          type = 'triangle';
-          confidence = 0.90;
-        }
-        break;
-      case 4:
-        if (solidity > 0.9) { // Must be a solid shape
-          type = 'rectangle';
-          confidence = 0.92;
-        }
-        break;
-      case 5:
-        if (solidity > 0.8) { // High solidity = pentagon
-          type = 'pentagon';
-          confidence = 0.88;
-        } else if (solidity > 0.3) { // Low solidity = star
-          type = 'star';
-          confidence = 0.82; 
-        }
-        break;
-      case 10:
-        // The test star image actually has 10 vertices
-        if (solidity < 0.8) {
-          type = 'star';
-          confidence = 0.82;
-        }
-        break;
-    }
-
-    if (type) {
-      return {
-        type: type,
-        confidence: confidence,
-        ...metrics,
-      };
-    }
-
-    return null; // Couldn't classify
+    return image;
   }
 
-  // --- METRIC & GEOMETRY HELPERS ---
-
   /**
-   * Calculates all the key properties for a contour:
-   * Area, Perimeter, Bounding Box, and Center.
+   * The layers drawn from the candidate trace: every traced border, the
+   * hulls and corners of those that were classified, and the ones that
+   * were dropped, each labeled with the rule that dropped it.
    */
-  private calculateMetrics(contour: Contour) {
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    let area = 0;
-    let perimeter = 0;
-    let sumX = 0, sumY = 0;
-
-    if (contour.length === 0) {
-      return { 
-        area: 0, perimeter: 0, 
-        boundingBox: { x: 0, y: 0, width: 0, height: 0 }, 
-        center: { x: 0, y: 0 } 
-      };
-    }
-
-    for (let i = 0; i < contour.length; i++) {
-      const p1 = contour[i];
-      const p2 = contour[(i + 1) % contour.length]; // Wrap around
-
-      // Find the bounding box
-      if (p1.x < minX) minX = p1.x;
-      if (p1.y < minY) minY = p1.y;
-      if (p1.x > maxX) maxX = p1.x;
-      if (p1.y > maxY) maxY = p1.y;
-
-      // Use the Shoelace formula to find the area
-      area += (p1.x * p2.y - p2.x * p1.y);
-      // Add up the distance between each point for the perimeter
-      perimeter += Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
-      // Find the average (X, Y) position for the center
-      sumX += p1.x;
-      sumY += p1.y;
-    }
-
-    area = Math.abs(area / 2.0);
-    const centerX = sumX / contour.length;
-    const centerY = sumY / contour.length;
-
-    return {
-      area: area,
-      perimeter: perimeter,
-      boundingBox: {
-        x: minX,
-        y: minY,
-        width: maxX - minX,
-        height: maxY - minY,
-      },
-      center: { x: centerX, y: centerY },
+  private drawCandidateLayers(candidates: CandidateTrace[]): void {
+    const ctx = this.ctx;
+    const outline = (points: Point[]) => {
+      ctx.beginPath();
+      points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.stroke();
     };
-  }
+    const classified = candidates.filter((c) => c.stage === "classification");
+    ctx.lineWidth = 1;
 
-  /**
-   * Simplifies the contour (which has thousands of points) into just
-   * its main corners (vertices) using the Ramer-Douglas-Peucker algorithm.
-   */
-  private simplifyContour(points: Point[], epsilon: number): Point[] {
-    if (points.length < 3) {
-      return points;
-    }
-    // Find the point farthest from the line between start and end
-    let dmax = 0;
-    let index = 0;
-    const end = points.length - 1;
-    for (let i = 1; i < end; i++) {
-      const d = this.perpendicularDistance(points[i], points[0], points[end]);
-      if (d > dmax) {
-        dmax = d;
-        index = i;
-      }
-    }
-    // If that point is "far enough" (epsilon), it's a corner.
-    if (dmax > epsilon) {
-      // Recursively simplify both halves.
-      const recResults1 = this.simplifyContour(points.slice(0, index + 1), epsilon);
-      const recResults2 = this.simplifyContour(points.slice(index), epsilon);
-      // Put the results back together
-      return recResults1.slice(0, recResults1.length - 1).concat(recResults2);
-    } else {
-      // If no point is far enough, the shape is just a straight line.
-      return [points[0], points[end]];
-    }
-  }
-
-  /**
-   * Helper for simplifyContour. Finds distance from a point to a line segment.
-   */
-  private perpendicularDistance(point: Point, lineStart: Point, lineEnd: Point): number {
-    let dx = lineEnd.x - lineStart.x;
-    let dy = lineEnd.y - lineStart.y;
-
-    if (dx === 0 && dy === 0) {
-      dx = point.x - lineStart.x;
-      dy = point.y - lineStart.y;
-      return Math.sqrt(dx * dx + dy * dy);
+    if (this.layers.includes("contours")) {
+      ctx.strokeStyle = "rgba(0, 90, 255, 0.9)"; // Blue
+      for (const candidate of candidates) outline(candidate.contour);
     }
-    
-    const lenSq = dx * dx + dy * dy;
-    const t = ((point.x - lineStart.x) * dx + (point.y - lineStart.y) * dy) / lenSq;
-
-    let closestX, closestY;
-    if (t < 0) {
-      closestX = lineStart.x;
-      closestY = lineStart.y;
-    } else if (t > 1) {
-      closestX = lineEnd.x;
-      closestY = lineEnd.y;
-    } else {
-      closestX = lineStart.x + t * dx;
-      closestY = lineStart.y + t * dy;
-    }
-    dx = point.x - closestX;
-    dy = point.y - closestY;
-    return Math.sqrt(dx * dx + dy * dy);
-  }
-
-  /**
-   * Helper for solidity check. Calculates the cross product of three points.
-   */
-  private crossProduct(o: Point, a: Point, b: Point): number {
-    return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
-  }
-
-  /**
-   * Calculates the "convex hull" (or "shrink-wrap") of a shape.
-   * We use this to tell a star from a pentagon.
-   */
-  private calculateConvexHull(points: Point[]): Contour {
-    if (points.length <= 3) {
-      return [...points];
+    if (this.layers.includes("hulls")) {
+      ctx.strokeStyle = "rgba(150, 0, 255, 0.9)"; // Purple
+      ctx.setLineDash([4, 3]);
+      for (const candidate of classified) outline(candidate.hull);
+      ctx.setLineDash([]);
     }
-    // Sort points by X-coordinate
-    const sortedPoints = [...points].sort((a, b) => 
-      a.x !== b.x ? a.x - b.x : a.y - b.y
-    );
-    const upper: Contour = [];
-    const lower: Contour = [];
-    // Build lower hull
-    for (const p of sortedPoints) {
-      while (
-        lower.length >= 2 &&
-        this.crossProduct(lower[lower.length - 2], lower[lower.length - 1], p) <= 0
-      ) {
-        lower.pop();
+    if (this.layers.includes("vertices")) {
+      ctx.fillStyle = "rgba(0, 0, 160, 0.9)"; // Dark blue
+      for (const { x, y } of classified.flatMap((c) => c.vertices)) {
+        ctx.fillRect(x - 2, y - 2, 5, 5);
       }
-      lower.push(p);
     }
-    // Build upper hull
-    for (let i = sortedPoints.length - 1; i >= 0; i--) {
-      const p = sortedPoints[i];
-      while (
-        upper.length >= 2 &&
-        this.crossProduct(upper[upper.length - 2], upper[upper.length - 1], p) <= 0
-      ) {
-        upper.pop();
+    if (this.layers.includes("rejected")) {
+      // Holes and the inner edges of strokes are parts of other borders
+      const rejected = candidates.filter((c) => !c.accepted && !c.isHole && c.rule !== "innerEdge");
+      ctx.strokeStyle = "rgba(255, 60, 60, 0.9)"; // Light red
+      ctx.fillStyle = "rgba(255, 60, 60, 0.9)";
+      ctx.lineWidth = 2;
+      ctx.font = "11px Arial";
+      for (const candidate of rejected) {
+        outline(candidate.contour);
+        const top = candidate.contour.reduce((a, b) => (b.y < a.y || (b.y === a.y && b.x < a.x) ? b : a));
+        ctx.fillText(candidate.rule, top.x, top.y - 3);
       }
-      upper.push(p);
-    }
-    upper.pop();
-    lower.pop();
-    return lower.concat(upper);
-  }
-
-  /**
-   * Draws the original image and overlays the final detections.
-   */
-  private drawDetectionsToCanvas(imageData: ImageData, shapes: DetectedShape[]): void {
-    // 1. Draw the original image
-    this.ctx.putImageData(imageData, 0, 0);
-
-    // 2. Loop through each detected shape
-    for (const shape of shapes) {
-      const { type, boundingBox, center } = shape;
-
-      // 3. Set text style
-      const text = `${type} (${(shape.confidence * 100).toFixed(0)}%)`;
-      this.ctx.font = "16px Arial";
-      this.ctx.fillStyle = "rgba(255, 255, 0, 0.8)"; // Yellow
-      this.ctx.fillText(text, boundingBox.x, boundingBox.y - 5);
-
-      // 4. Draw bounding box
-      this.ctx.strokeStyle = "rgba(0, 255, 0, 0.8)"; // Green
-      this.ctx.lineWidth = 2;
-      this.ctx.strokeRect(boundingBox.x, boundingBox.y, boundingBox.width, boundingBox.height);
-
-      // 5. Draw center point
-      this.ctx.fillStyle = "rgba(255, 0, 0, 0.8)"; // Red
-      this.ctx.beginPath();
-      this.ctx.arc(center.x, center.y, 3, 0, 2 * Math.PI);
-      this.ctx.fill();
     }
   }
 
 } // End of ShapeDetector class
 
-// --- APP LOGIC (Unchanged) ---
+// Human-readable names for the progress indicator.
+const STAGE_LABELS: Record<DetectionStage, string> = {
+  grayscale: "Converting to grayscale",
+  preprocessing: "Filtering noise",
+  edges: "Finding edges",
+  contours: "Tracing contours",
+  classification: "Classifying shapes",
+};
+
+// --- APP LOGIC ---
 // This class handles the UI, file loading, and evaluation calls.
 class ShapeDetectionApp {
   private detector: ShapeDetector;
+  private activeDetection: AbortController | null = null;
   private imageInput: HTMLInputElement;
   private resultsDiv: HTMLDivElement;
   private testImagesDiv: HTMLDivElement;
   private evaluateButton: HTMLButtonElement;
   private evaluationResultsDiv: HTMLDivElement;
+  private edgeModeSelect: HTMLSelectElement;
+  private contourSourceSelect: HTMLSelectElement;
+  private colorModeSelect: HTMLSelectElement;
+  private houghSelect: HTMLSelectElement;
+  private layerInputs: HTMLInputElement[];
+  private templateInput: HTMLInputElement;
+  private templateImageButton: HTMLButtonElement;
+  private clearTemplateButton: HTMLButtonElement;
+  private templateSimilarityInput: HTMLInputElement;
+  private templateInfo: HTMLSpanElement;
+  // The shape to look for, from a reference image or a detection
+  private template: ShapeTemplate | null = null;
+  // The image last picked, to detect again when a debug layer or the
+  // template needs it
+  private lastFile: File | null = null;
   private selectionManager: SelectionManager;
   private evaluationManager: EvaluationManager;
 
@@ -629,6 +363,36 @@ class ShapeDetectionApp {
     this.evaluationResultsDiv = document.getElementById(
       "evaluationResults"
     ) as HTMLDivElement;
+    this.edgeModeSelect = document.getElementById(
+      "edgeModeSelect"
+    ) as HTMLSelectElement;
+    this.contourSourceSelect = document.getElementById(
+      "contourSourceSelect"
+    ) as HTMLSelectElement;
+    this.colorModeSelect = document.getElementById(
+      "colorModeSelect"
+    ) as HTMLSelectElement;
+    this.houghSelect = document.getElementById(
+      "houghSelect"
+    ) as HTMLSelectElement;
+    this.layerInputs = Array.from(
+      document.querySelectorAll<HTMLInputElement>("#layerControls input")
+    );
+    this.templateInput = document.getElementById(
+      "templateInput"
+    ) as HTMLInputElement;
+    this.templateImageButton = document.getElementById(
+      "templateImageButton"
+    ) as HTMLButtonElement;
+    this.clearTemplateButton = document.getElementById(
+      "clearTemplateButton"
+    ) as HTMLButtonElement;
+    this.templateSimilarityInput = document.getElementById(
+      "templateSimilarityInput"
+    ) as HTMLInputElement;
+    this.templateInfo = document.getElementById(
+      "templateInfo"
+    ) as HTMLSpanElement;
 
     // @ts-ignore
     this.selectionManager = new SelectionManager();
@@ -650,32 +414,201 @@ class ShapeDetectionApp {
       }
     });
 
+    for (const input of this.layerInputs) {
+      input.addEventListener("change", async () => {
+        if (!this.detector.showLayers(this.getLayers()) && this.lastFile) {
+          await this.processImage(this.lastFile);
+        }
+      });
+    }
+
+    this.templateImageButton.addEventListener("click", () => {
+      this.templateInput.click();
+    });
+
+    this.templateInput.addEventListener("change", async (event) => {
+      const input = event.target as HTMLInputElement;
+      const file = input.files?.[0];
+      input.value = "";
+      if (!file) return;
+      const label = file.name.replace(/\.[^.]+$/, "");
+      try {
+        const template = await this.detector.createTemplate(file, label, this.getDetectorOverrides());
+        if (template) {
+          await this.useTemplate(template);
+        } else {
+          this.templateInfo.textContent = `No shape found in ${file.name}`;
+        }
+      } catch (error) {
+        this.templateInfo.textContent = `Error: ${error}`;
+      }
+    });
+
+    this.clearTemplateButton.addEventListener("click", async () => {
+      await this.useTemplate(null);
+    });
+
+    this.templateSimilarityInput.addEventListener("change", async () => {
+      if (this.template && this.lastFile) {
+        await this.processImage(this.lastFile);
+      }
+    });
+
     this.evaluateButton.addEventListener("click", async () => {
       const selectedImages = this.selectionManager.getSelectedImages();
-      await this.evaluationManager.runSelectedEvaluation(selectedImages);
+      await this.evaluationManager.runSelectedEvaluation(
+        selectedImages,
+        this.getDetectorOverrides()
+      );
     });
   }
 
   private async processImage(file: File): Promise<void> {
+    // Starting a new image cancels whatever was still running.
+    this.activeDetection?.abort();
+    const controller = new AbortController();
+    this.activeDetection = controller;
+    this.lastFile = file;
+
     try {
-      this.resultsDiv.innerHTML = "<p>Processing...</p>";
+      this.showProgress(controller);
 
       const imageData = await this.detector.loadImage(file);
-      const results = await this.detector.detectShapes(imageData);
+      // The debug layers draw from the trace, which only a debug run returns
+      const layers = this.getLayers();
+      this.detector.showLayers(layers);
+      // Descriptors let any detection become the template
+      const overrides = {
+        ...this.getDetectorOverrides(),
+        ...(layers.length > 0 && { debug: true }),
+        ...this.getTemplateOverrides(),
+        descriptors: true,
+      };
+      const results = await this.detector.detectShapes(imageData, overrides, {
+        signal: controller.signal,
+        onProgress: ({ stage, progress }) =>
+          this.updateProgress(STAGE_LABELS[stage], progress),
+      });
 
       this.displayResults(results);
     } catch (error) {
-      this.resultsDiv.innerHTML = `<p>Error: ${error}</p>`;
+      if (controller.signal.aborted) {
+        // A newer image took over the results panel; leave it alone.
+        if (this.activeDetection === controller) {
+          this.resultsDiv.innerHTML = "<p>Detection cancelled.</p>";
+        }
+      } else {
+        this.resultsDiv.innerHTML = `<p>Error: ${error}</p>`;
+      }
+    } finally {
+      if (this.activeDetection === controller) {
+        this.activeDetection = null;
+      }
+    }
+  }
+
+  /**
+   * The detector settings picked in the UI, applied to every run.
+   */
+  private getDetectorOverrides(): Partial<DetectorOptions> {
+    return {
+      contourSource: this.contourSourceSelect.value as ContourSource,
+      edgeMode: this.edgeModeSelect.value as EdgeMode,
+      colorMode: this.colorModeSelect.value as ColorMode,
+      hough: this.houghSelect.value as HoughMode,
+    };
+  }
+
+  /**
+   * The template to look for and how alike a match has to be, if there is
+   * a template. Only the viewer uses these, not the evaluation.
+   */
+  private getTemplateOverrides(): Partial<DetectorOptions> {
+    if (!this.template) return {};
+    const similarity = this.templateSimilarityInput.valueAsNumber;
+    return {
+      templates: [this.template],
+      ...(similarity >= 0 && similarity <= 1 && { minTemplateSimilarity: similarity }),
+    };
+  }
+
+  /**
+   * Starts (or, with null, stops) looking for a template, and detects
+   * again in the current image.
+   */
+  private async useTemplate(template: ShapeTemplate | null): Promise<void> {
+    this.template = template;
+    this.templateInfo.textContent = template ? `Looking for "${template.label}"` : "No template";
+    this.clearTemplateButton.disabled = !template;
+    if (this.lastFile) {
+      await this.processImage(this.lastFile);
+    }
+  }
+
+  /**
+   * The debug layers ticked in the UI.
+   */
+  private getLayers(): OverlayLayer[] {
+    return this.layerInputs
+      .filter((input) => input.checked)
+      .map((input) => input.value as OverlayLayer);
+  }
+
+  /**
+   * Replaces the results panel with a progress bar and a cancel button.
+   */
+  private showProgress(controller: AbortController): void {
+    this.resultsDiv.innerHTML = `
+      <div class="detection-progress">
+        <p class="progress-label">Loading image...</p>
+        <progress max="1" value="0"></progress>
+        <button type="button" class="cancel-button">Cancel</button>
+      </div>
+    `;
+    this.resultsDiv
+      .querySelector(".cancel-button")!
+      .addEventListener("click", () => controller.abort());
+  }
+
+  private updateProgress(label: string, progress: number): void {
+    const labelElement = this.resultsDiv.querySelector(".progress-label");
+    const bar = this.resultsDiv.querySelector("progress");
+    if (labelElement) {
+      labelElement.textContent = `${label}... ${Math.round(progress * 100)}%`;
+    }
+    if (bar) {
+      bar.value = progress;
     }
   }
 
   private displayResults(results: DetectionResult): void {
-    const { shapes, processingTime } = results;
+    const { shapes, processingTime, preprocessing, candidates, templateMatches } = results;
 
     let html = `
       <p><strong>Processing Time:</strong> ${processingTime.toFixed(2)}ms</p>
       <p><strong>Shapes Found:</strong> ${shapes.length}</p>
     `;
+    if (preprocessing.length > 0) {
+      const steps = preprocessing.map((step) => `${step.operation} ${step.size}px`);
+      html += `<p><strong>Preprocessing:</strong> ${steps.join(" → ")}</p>`;
+    }
+    if (candidates) {
+      // How many borders each rule dropped, holes and stroke edges aside
+      const dropped = new Map<string, number>();
+      for (const { accepted, isHole, rule } of candidates) {
+        if (accepted || isHole || rule === "innerEdge") continue;
+        dropped.set(rule, (dropped.get(rule) ?? 0) + 1);
+      }
+      const counts = [...dropped].map(([rule, count]) => `${count} × ${rule}`);
+      html += `<p><strong>Rejected candidates:</strong> ${counts.join(", ") || "none"}</p>`;
+    }
+    if (templateMatches && this.template) {
+      const found = shapes.filter((shape) => shape.type === "custom").length;
+      const best = templateMatches[0];
+      html += `<p><strong>Template matches:</strong> ${found} of ${templateMatches.length} contours like "${
+        this.template.label
+      }"${best ? ` (closest ${(best.similarity * 100).toFixed(1)}%)` : ""}</p>`;
+    }
 
     if (shapes.length > 0) {
       html += "<h4>Detected Shapes:</h4><ul>";
@@ -690,7 +623,10 @@ class ShapeDetectionApp {
             Center: (${shape.center.x.toFixed(1)}, ${shape.center.y.toFixed(
           1
         )})<br>
-            Area: ${shape.area.toFixed(1)}px²
+            Area: ${shape.area.toFixed(1)}px²<br>
+            ${this.describeGeometry(shape)}<br>
+            ${this.describeStyle(shape)}<br>
+            <button type="button" class="template-button" data-shape-id="${shape.id}">Find similar</button>
           </li>
         `;
       });
@@ -700,6 +636,62 @@ class ShapeDetectionApp {
     }
 
     this.resultsDiv.innerHTML = html;
+
+    // A detection becomes the template to look for
+    this.resultsDiv.querySelectorAll<HTMLButtonElement>(".template-button").forEach((button) => {
+      const shape = shapes[Number(button.dataset.shapeId)];
+      if (!shape.descriptors) {
+        button.disabled = true;
+        return;
+      }
+      const descriptors = shape.descriptors;
+      button.addEventListener("click", () =>
+        this.useTemplate(templateFromDescriptors(descriptors, `${shape.label ?? shape.type} #${shape.id}`))
+      );
+    });
+  }
+
+  /**
+   * The fitted size of a circle or ellipse, a line's ends, or the rotation
+   * of anything else.
+   */
+  private describeGeometry(shape: DetectedShape): string {
+    const fitError = `fit error ${shape.fitResidual?.toFixed(2)}px`;
+    if (shape.radius !== undefined) {
+      return `Radius: ${shape.radius.toFixed(2)}px (${fitError})`;
+    }
+    if (shape.semiMajorAxis !== undefined && shape.semiMinorAxis !== undefined) {
+      return `Semi-axes: ${shape.semiMajorAxis.toFixed(1)} × ${shape.semiMinorAxis.toFixed(
+        1
+      )}px at ${shape.orientation.toFixed(1)}° (${fitError})`;
+    }
+    if (shape.points !== undefined && shape.outerRadius !== undefined && shape.innerRadius !== undefined) {
+      return `Points: ${shape.points}, radii ${shape.outerRadius.toFixed(1)} / ${shape.innerRadius.toFixed(
+        1
+      )}px<br>Rotation: ${shape.orientation.toFixed(1)}°`;
+    }
+    const rotation = `Rotation: ${shape.orientation.toFixed(1)}°`;
+    if (shape.similarity !== undefined) {
+      return `Template: "${shape.label}", ${(shape.similarity * 100).toFixed(1)}% similar<br>${rotation}`;
+    }
+    if (shape.endpoints && shape.length !== undefined) {
+      const [start, end] = shape.endpoints.map((p) => `(${p.x.toFixed(1)}, ${p.y.toFixed(1)})`);
+      return `Length: ${shape.length.toFixed(1)}px, from ${start} to ${end}<br>${rotation}`;
+    }
+    if (shape.subtype !== undefined) return `Kind: ${shape.subtype}<br>${rotation}`;
+    return shape.sides !== undefined ? `Sides: ${shape.sides}<br>${rotation}` : rotation;
+  }
+
+  /**
+   * The shape's fill and stroke colors, with a swatch of each.
+   */
+  private describeStyle({ style }: DetectedShape): string {
+    const swatch = (hex: string) =>
+      `<span style="display:inline-block;width:10px;height:10px;background:${hex};border:1px solid #888"></span> ${hex}`;
+    const fill = style.fill ? `Fill: ${swatch(style.fill.hex)}` : "Outline only";
+    return style.stroke
+      ? `${fill}, stroke: ${swatch(style.stroke.hex)} (${style.strokeWidth}px)`
+      : fill;
   }
 
   private async loadTestImages(): Promise<void> {
@@ -750,9 +742,7 @@ class ShapeDetectionApp {
           const blob = await response.blob();
           const file = new File([blob], name, { type: "image/svg+xml" });
 
-          const imageData = await this.detector.loadImage(file);
-          const results = await this.detector.detectShapes(imageData);
-          this.displayResults(results);
+          await this.processImage(file);
 
           console.log(`Loaded test image: ${name}`);
         } catch (error) {
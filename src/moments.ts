@@ -0,0 +1,123 @@
+import type { Contour } from "./detector-core.js";
+
+// --- MOMENTS ---
+// The area moments of the region a closed contour encloses, up to third
+// order. Green's theorem turns each integral over the region into a sum
+// over the polygon's edges, so no pixels need counting.
+
+export interface Moments {
+  /** Spatial moments: m_pq = ∬ x^p y^q over the region. `m00` is its area. */
+  m00: number;
+  m10: number;
+  m01: number;
+  m20: number;
+  m11: number;
+  m02: number;
+  m30: number;
+  m21: number;
+  m12: number;
+  m03: number;
+  /** Central moments: the same about the centroid, which makes them translation invariant. */
+  mu20: number;
+  mu11: number;
+  mu02: number;
+  mu30: number;
+  mu21: number;
+  mu12: number;
+  mu03: number;
+}
+
+/**
+ * The moments of the polygon through the contour's points, whichever way
+ * round it runs. All are 0 for a contour that encloses no area.
+ */
+export function contourMoments(contour: Contour): Moments {
+  let a00 = 0, a10 = 0, a01 = 0, a20 = 0, a11 = 0, a02 = 0, a30 = 0, a21 = 0, a12 = 0, a03 = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const { x: x0, y: y0 } = contour[(i + contour.length - 1) % contour.length];
+    const { x: x1, y: y1 } = contour[i];
+    const cross = x0 * y1 - x1 * y0;
+    const xx = x0 * x0 + x0 * x1 + x1 * x1;
+    const yy = y0 * y0 + y0 * y1 + y1 * y1;
+    a00 += cross;
+    a10 += cross * (x0 + x1);
+    a01 += cross * (y0 + y1);
+    a20 += cross * xx;
+    a11 += cross * (x0 * (2 * y0 + y1) + x1 * (y0 + 2 * y1));
+    a02 += cross * yy;
+    a30 += cross * (x0 + x1) * (x0 * x0 + x1 * x1);
+    a21 += cross * (x0 * x0 * (3 * y0 + y1) + 2 * x0 * x1 * (y0 + y1) + x1 * x1 * (y0 + 3 * y1));
+    a12 += cross * (y0 * y0 * (3 * x0 + x1) + 2 * y0 * y1 * (x0 + x1) + y1 * y1 * (x0 + 3 * x1));
+    a03 += cross * (y0 + y1) * (y0 * y0 + y1 * y1);
+  }
+  // The sums come out negative for one winding direction; the area is positive either way
+  const sign = a00 < 0 ? -1 : 1;
+  const m00 = (sign * a00) / 2;
+  if (m00 === 0) {
+    return {
+      m00: 0, m10: 0, m01: 0, m20: 0, m11: 0, m02: 0, m30: 0, m21: 0, m12: 0, m03: 0,
+      mu20: 0, mu11: 0, mu02: 0, mu30: 0, mu21: 0, mu12: 0, mu03: 0,
+    };
+  }
+  const m10 = (sign * a10) / 6;
+  const m01 = (sign * a01) / 6;
+  const m20 = (sign * a20) / 12;
+  const m11 = (sign * a11) / 24;
+  const m02 = (sign * a02) / 12;
+  const m30 = (sign * a30) / 20;
+  const m21 = (sign * a21) / 60;
+  const m12 = (sign * a12) / 60;
+  const m03 = (sign * a03) / 20;
+
+  const cx = m10 / m00;
+  const cy = m01 / m00;
+  const mu20 = m20 - cx * m10;
+  const mu11 = m11 - cx * m01;
+  const mu02 = m02 - cy * m01;
+  return {
+    m00, m10, m01, m20, m11, m02, m30, m21, m12, m03,
+    mu20,
+    mu11,
+    mu02,
+    mu30: m30 - cx * (3 * mu20 + cx * m10),
+    mu21: m21 - cx * (2 * mu11 + cx * m01) - cy * mu20,
+    mu12: m12 - cy * (2 * mu11 + cy * m10) - cx * mu02,
+    mu03: m03 - cy * (3 * mu02 + cy * m01),
+  };
+}
+
+/**
+ * The seven Hu moments: combinations of the central moments that stay
+ * the same when the shape is moved, scaled or turned. The seventh
+ * changes sign in a mirror image. Their sizes differ by orders of
+ * magnitude, so compare them on a log scale. All are 0 for a contour
+ * that encloses no area.
+ */
+export function huMoments(moments: Moments): number[] {
+  const { m00 } = moments;
+  if (m00 === 0) return [0, 0, 0, 0, 0, 0, 0];
+  // Normalized central moments, which scaling leaves alone too
+  const second = m00 * m00;
+  const third = second * Math.sqrt(m00);
+  const n20 = moments.mu20 / second;
+  const n11 = moments.mu11 / second;
+  const n02 = moments.mu02 / second;
+  const n30 = moments.mu30 / third;
+  const n21 = moments.mu21 / third;
+  const n12 = moments.mu12 / third;
+  const n03 = moments.mu03 / third;
+
+  const a = n30 + n12;
+  const b = n21 + n03;
+  const c = n30 - 3 * n12;
+  const d = 3 * n21 - n03;
+  return [
+    n20 + n02,
+    (n20 - n02) ** 2 + 4 * n11 * n11,
+    c * c + d * d,
+    a * a + b * b,
+    c * a * (a * a - 3 * b * b) + d * b * (3 * a * a - b * b),
+    (n20 - n02) * (a * a - b * b) + 4 * n11 * a * b,
+    d * a * (a * a - 3 * b * b) - c * b * (3 * a * a - b * b),
+  ];
+}
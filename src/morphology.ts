@@ -0,0 +1,85 @@
+// --- BINARY MORPHOLOGY ---
+// Cleans up a binary map (an edge map or a region mask) with a square
+// structuring element. Set pixels are any nonzero value, and the set
+// value is kept, so the same functions work on both kinds of map.
+
+/** A morphological operation on a binary map, or "none" to skip it. */
+export type Morphology = "none" | "open" | "close" | "dilate" | "erode";
+
+/**
+ * Applies `operation` with a (2·radius + 1)² square, returning a new map.
+ * "open" (erode, then dilate) removes specks and whiskers smaller than the
+ * square; "close" (dilate, then erode) bridges gaps and fills pinholes.
+ */
+export function applyMorphology(
+  map: Uint8Array,
+  width: number,
+  height: number,
+  operation: Morphology,
+  radius: number
+): Uint8Array {
+  switch (operation) {
+    case "dilate":
+      return dilate(map, width, height, radius);
+    case "erode":
+      return erode(map, width, height, radius);
+    case "open":
+      return dilate(erode(map, width, height, radius), width, height, radius);
+    case "close":
+      return erode(dilate(map, width, height, radius), width, height, radius);
+    default:
+      return map.slice();
+  }
+}
+
+/** Sets every pixel within `radius` (square) of a set pixel. */
+export function dilate(map: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return squareFilter(map, width, height, radius, Math.max, 0);
+}
+
+/**
+ * Keeps only the set pixels whose whole square neighborhood is set.
+ * Past the border counts as set, so shapes touching it aren't eaten away.
+ */
+export function erode(map: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return squareFilter(map, width, height, radius, Math.min, 255);
+}
+
+/**
+ * Reduces each pixel's square neighborhood with `pick` (max or min),
+ * one row pass and one column pass, since a square is separable.
+ */
+function squareFilter(
+  map: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  pick: (a: number, b: number) => number,
+  outside: number
+): Uint8Array {
+  const r = Math.max(0, Math.round(radius));
+  const temp = new Uint8Array(map.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let v = map[row + x];
+      for (let k = -r; k <= r; k++) {
+        const sx = x + k;
+        v = pick(v, sx < 0 || sx >= width ? outside : map[row + sx]);
+      }
+      temp[row + x] = v;
+    }
+  }
+  const out = new Uint8Array(map.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let v = temp[y * width + x];
+      for (let k = -r; k <= r; k++) {
+        const sy = y + k;
+        v = pick(v, sy < 0 || sy >= height ? outside : temp[sy * width + x]);
+      }
+      out[y * width + x] = v;
+    }
+  }
+  return out;
+}
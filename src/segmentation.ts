@@ -0,0 +1,204 @@
+import type { Point } from "./detector-core.js";
+
+// --- REGION SEGMENTATION ---
+// An alternative front end to edge detection: split the image into
+// foreground and background and drop blobs too small to be shapes.
+// Border following then walks each blob's boundary, which is always
+// closed for a filled shape, even where an edge map would have a gap.
+
+export type ThresholdMethod = "otsu" | "adaptive";
+export type Foreground = "auto" | "dark" | "light";
+
+export interface SegmentationOptions {
+  /** Global Otsu threshold, or a local mean threshold for uneven lighting. */
+  method: ThresholdMethod;
+  /** Which side of the threshold the shapes are on; "auto" picks the side the border isn't. */
+  foreground: Foreground;
+  /** Adaptive: width of the square window the local mean is taken over (px). */
+  blockSize: number;
+  /** Adaptive: how far past the local mean a pixel has to be to count as foreground. */
+  offset: number;
+}
+
+// The 8 neighbors of a pixel.
+const NEIGHBORS: Point[] = [
+  { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }, { x: -1, y: 1 },
+  { x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 },
+];
+
+/**
+ * Clears every foreground blob with fewer than `minPixels` pixels
+ * from a `binarize` mask, in place, and returns the mask.
+ */
+export function removeSmallBlobs(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  minPixels: number
+): Uint8Array {
+  const { labels, sizes } = labelComponents(mask, width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (labels[i] !== 0 && sizes[labels[i]] < minPixels) mask[i] = 0;
+  }
+  return mask;
+}
+
+/**
+ * Turns the grayscale image into a foreground mask (1 = foreground).
+ */
+export function binarize(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  options: SegmentationOptions
+): Uint8Array {
+  const threshold = otsuThreshold(gray);
+  const darkForeground =
+    options.foreground === "auto"
+      ? isBorderLight(gray, width, height, threshold)
+      : options.foreground === "dark";
+
+  const mask = new Uint8Array(width * height);
+  if (options.method === "otsu") {
+    for (let i = 0; i < gray.length; i++) {
+      const dark = gray[i] <= threshold;
+      mask[i] = dark === darkForeground ? 1 : 0;
+    }
+    return mask;
+  }
+
+  const means = localMeans(gray, width, height, Math.floor(options.blockSize / 2));
+  for (let i = 0; i < gray.length; i++) {
+    mask[i] = darkForeground
+      ? (gray[i] < means[i] - options.offset ? 1 : 0)
+      : (gray[i] > means[i] + options.offset ? 1 : 0);
+  }
+  return mask;
+}
+
+/**
+ * Otsu's method: the gray level that best splits the histogram into two
+ * classes, by maximizing the variance between them. Pixels at or below
+ * the returned level form the dark class.
+ */
+export function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Float64Array(256);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let totalSum = 0;
+  for (let level = 0; level < 256; level++) totalSum += level * histogram[level];
+
+  let darkCount = 0;
+  let darkSum = 0;
+  let bestLevel = 0;
+  let bestVariance = -1;
+  for (let level = 0; level < 256; level++) {
+    darkCount += histogram[level];
+    if (darkCount === 0) continue;
+    const lightCount = gray.length - darkCount;
+    if (lightCount === 0) break;
+    darkSum += level * histogram[level];
+    const darkMean = darkSum / darkCount;
+    const lightMean = (totalSum - darkSum) / lightCount;
+    const variance = darkCount * lightCount * (darkMean - lightMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestLevel = level;
+    }
+  }
+  return bestLevel;
+}
+
+/**
+ * True if most of the image border is on the light side of `threshold`,
+ * meaning the background is light and the shapes are dark.
+ */
+function isBorderLight(gray: Uint8Array, width: number, height: number, threshold: number): boolean {
+  let light = 0;
+  let total = 0;
+  const count = (i: number) => {
+    total++;
+    if (gray[i] > threshold) light++;
+  };
+  for (let x = 0; x < width; x++) {
+    count(x);
+    count((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    count(y * width);
+    count(y * width + width - 1);
+  }
+  return light * 2 >= total;
+}
+
+/**
+ * The mean gray level in a (2·radius+1)² window around every pixel,
+ * clipped at the image border, computed with an integral image.
+ */
+function localMeans(gray: Uint8Array, width: number, height: number, radius: number): Float32Array {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const means = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum =
+        integral[y1 * stride + x1] - integral[y0 * stride + x1] -
+        integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      means[y * width + x] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return means;
+}
+
+/**
+ * Labels 8-connected foreground blobs with 1, 2, 3...; background stays 0.
+ * `sizes[label]` is the number of pixels in each blob.
+ */
+export function labelComponents(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): { labels: Int32Array; count: number; sizes: number[] } {
+  const labels = new Int32Array(width * height);
+  const sizes: number[] = [0];
+  const stack: number[] = [];
+  let count = 0;
+
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] === 0 || labels[i] !== 0) continue;
+    const label = ++count;
+    let size = 0;
+    labels[i] = label;
+    stack.push(i);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      size++;
+      const px = p % width;
+      const py = (p - px) / width;
+      for (const { x: dx, y: dy } of NEIGHBORS) {
+        const nx = px + dx;
+        const ny = py + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const n = ny * width + nx;
+        if (mask[n] !== 0 && labels[n] === 0) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  return { labels, count, sizes };
+}
@@ -0,0 +1,195 @@
+import type { Contour, Point } from "./detector-core.js";
+import type { EllipseFit } from "./fitting.js";
+
+// --- SHAPE SPLITTING ---
+// Filled shapes that touch or overlap trace as one blob. Where two convex
+// outlines meet they leave a notch in the joint outline: a convexity
+// defect, a point well inside the blob's convex hull. A straight cut
+// across the narrowest neck between two notches separates the shapes,
+// and what one shape hides of the other can then be filled back in.
+
+export interface ConvexityDefect {
+  /** Index of the defect's deepest point in the contour. */
+  index: number;
+  /** How far (px) that point lies inside the hull edge spanning it. */
+  depth: number;
+}
+
+/**
+ * The notches in a contour deeper than `minDepth`: for each run of points
+ * lying at least that far inside the convex hull, its deepest point.
+ * One hull edge can span several notches, as along a row of circles.
+ * `hull` must be made of the contour's own point objects, as a convex
+ * hull of the contour is.
+ */
+export function convexityDefects(contour: Contour, hull: Contour, minDepth: number): ConvexityDefect[] {
+  const n = contour.length;
+  const indexOf = new Map<Point, number>();
+  contour.forEach((p, i) => {
+    if (!indexOf.has(p)) indexOf.set(p, i);
+  });
+  // Going round the contour meets the hull points in hull order
+  const hullIndices = hull
+    .map((p) => indexOf.get(p))
+    .filter((i): i is number => i !== undefined)
+    .sort((a, b) => a - b);
+
+  const defects: ConvexityDefect[] = [];
+  for (let k = 0; k < hullIndices.length; k++) {
+    const start = hullIndices[k];
+    const end = hullIndices[(k + 1) % hullIndices.length];
+    const span = (end - start + n) % n;
+    let notch: ConvexityDefect | null = null;
+    for (let s = 1; s < span; s++) {
+      const i = (start + s) % n;
+      const depth = distanceToLine(contour[i], contour[start], contour[end]);
+      if (depth < minDepth) {
+        if (notch) defects.push(notch);
+        notch = null;
+      } else if (!notch || depth > notch.depth) {
+        notch = { index: i, depth };
+      }
+    }
+    if (notch) defects.push(notch);
+  }
+  return defects;
+}
+
+/**
+ * The two defects to cut between: the pair whose cut is shortest
+ * compared with the outline on either side of it (the shorter side), so
+ * the cut runs across a waist rather than along one shape's edge. Both
+ * sides need more than `minSide` points. Returns the two contour indices
+ * in increasing order, or null if no pair qualifies.
+ */
+export function findNeck(
+  contour: Contour,
+  defects: ConvexityDefect[],
+  minSide: number
+): [number, number] | null {
+  const n = contour.length;
+  let best: [number, number] | null = null;
+  let bestRatio = Infinity;
+  for (let i = 0; i < defects.length; i++) {
+    for (let j = i + 1; j < defects.length; j++) {
+      const a = Math.min(defects[i].index, defects[j].index);
+      const b = Math.max(defects[i].index, defects[j].index);
+      const side = Math.min(b - a, n - (b - a));
+      if (side <= minSide) continue;
+      const ratio = Math.hypot(contour[b].x - contour[a].x, contour[b].y - contour[a].y) / side;
+      if (ratio < bestRatio) {
+        bestRatio = ratio;
+        best = [a, b];
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Cuts a closed contour in two between indices `a` < `b`. Each piece is
+ * its stretch of the outline closed with a straight line of 1px steps;
+ * the points on that line are new objects, added to `cut` so later steps
+ * can tell them from the traced outline.
+ */
+export function splitContour(contour: Contour, a: number, b: number, cut: Set<Point>): [Contour, Contour] {
+  const close = (stretch: Contour) => {
+    const line = linePoints(stretch[stretch.length - 1], stretch[0]);
+    for (const p of line) cut.add(p);
+    return stretch.concat(line);
+  };
+  return [
+    close(contour.slice(a, b + 1)),
+    close(contour.slice(b).concat(contour.slice(0, a + 1))),
+  ];
+}
+
+/**
+ * The points strictly between `p` and `q` on a straight line, one pixel
+ * step apart and rounded to whole pixels like a traced contour.
+ */
+export function linePoints(p: Point, q: Point): Point[] {
+  const steps = Math.max(Math.abs(q.x - p.x), Math.abs(q.y - p.y));
+  const points: Point[] = [];
+  for (let s = 1; s < steps; s++) {
+    const t = s / steps;
+    points.push({ x: Math.round(p.x + (q.x - p.x) * t), y: Math.round(p.y + (q.y - p.y) * t) });
+  }
+  return points;
+}
+
+/** A closed pixel contour running through the polygon's vertices. */
+export function polygonContour(vertices: Point[]): Contour {
+  const contour: Contour = [];
+  vertices.forEach((v, i) => {
+    const start = { x: Math.round(v.x), y: Math.round(v.y) };
+    const next = vertices[(i + 1) % vertices.length];
+    contour.push(start, ...linePoints(start, { x: Math.round(next.x), y: Math.round(next.y) }));
+  });
+  return contour;
+}
+
+/** A closed pixel contour round an ellipse (a circle when both axes match). */
+export function ellipseContour(ellipse: Pick<EllipseFit, "center" | "semiMajor" | "semiMinor" | "angle">): Contour {
+  const { center, semiMajor, semiMinor } = ellipse;
+  const angle = (ellipse.angle * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const steps = Math.max(8, Math.ceil(2 * Math.PI * semiMajor));
+  const contour: Contour = [];
+  for (let s = 0; s < steps; s++) {
+    const t = (2 * Math.PI * s) / steps;
+    const u = semiMajor * Math.cos(t), v = semiMinor * Math.sin(t);
+    const p = { x: Math.round(center.x + u * cos - v * sin), y: Math.round(center.y + u * sin + v * cos) };
+    const last = contour[contour.length - 1];
+    if (!last || last.x !== p.x || last.y !== p.y) contour.push(p);
+  }
+  const first = contour[0], last = contour[contour.length - 1];
+  if (contour.length > 1 && first.x === last.x && first.y === last.y) contour.pop();
+  return contour;
+}
+
+/**
+ * How much of the way round `center` (radians) the points reach:
+ * 2π less the widest angular gap between them.
+ */
+export function angularCoverage(points: Point[], center: Point): number {
+  if (points.length < 2) return 0;
+  const angles = points.map((p) => Math.atan2(p.y - center.y, p.x - center.x)).sort((a, b) => a - b);
+  let widestGap = angles[0] + 2 * Math.PI - angles[angles.length - 1];
+  for (let i = 1; i < angles.length; i++) {
+    widestGap = Math.max(widestGap, angles[i] - angles[i - 1]);
+  }
+  return 2 * Math.PI - widestGap;
+}
+
+/**
+ * Where the first and last edges of an open polyline meet when both are
+ * extended past its ends: the corner a polygon's visible edges point to.
+ * Null if they are parallel, or meet behind either end, or further than
+ * `maxReach` from one of them.
+ */
+export function extendedCorner(polyline: Point[], maxReach: number): Point | null {
+  if (polyline.length < 3) return null;
+  const [p0, p1] = polyline;
+  const q0 = polyline[polyline.length - 1];
+  const q1 = polyline[polyline.length - 2];
+  // p0 + s·(p0 - p1) = q0 + t·(q0 - q1), both with s, t > 0
+  const dx = p0.x - p1.x, dy = p0.y - p1.y;
+  const ex = q0.x - q1.x, ey = q0.y - q1.y;
+  const denominator = dx * ey - dy * ex;
+  if (Math.abs(denominator) < 1e-9) return null;
+  const wx = q0.x - p0.x, wy = q0.y - p0.y;
+  const s = (wx * ey - wy * ex) / denominator;
+  const t = (wx * dy - wy * dx) / denominator;
+  if (s <= 0 || t <= 0) return null;
+  const corner = { x: p0.x + s * dx, y: p0.y + s * dy };
+  const reach = Math.max(Math.hypot(corner.x - p0.x, corner.y - p0.y), Math.hypot(corner.x - q0.x, corner.y - q0.y));
+  return reach <= maxReach ? corner : null;
+}
+
+/** Distance from `p` to the infinite line through `a` and `b`. */
+function distanceToLine(p: Point, a: Point, b: Point): number {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+}
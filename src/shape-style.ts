@@ -0,0 +1,354 @@
+import type { Contour, PixelBuffer, Point } from "./detector-core.js";
+
+// --- SHAPE STYLE ---
+// Detection works on grayscale, but color comes from the original RGBA
+// pixels. Short rays are cast inward from the outline: each one crosses
+// the stroke (if any) and runs on into the fill, or into the background
+// showing through an outline-only shape.
+
+/** An RGB color, with its CSS hex form. */
+export interface Color {
+  r: number;
+  g: number;
+  b: number;
+  /** "#rrggbb" */
+  hex: string;
+}
+
+export interface ShapeStyle {
+  /** The color inside the shape, or null if it is only an outline. */
+  fill: Color | null;
+  /** The outline's color, or null if it has none apart from the fill. */
+  stroke: Color | null;
+  /** False for outline-only shapes, whose inside is the background. */
+  filled: boolean;
+  /** Stroke thickness (px, to a tenth), 0 without a stroke. */
+  strokeWidth: number;
+}
+
+// How many rays to cast around the outline.
+const RAY_COUNT = 64;
+// Half the length of the stretch of outline a ray's direction comes from.
+const TANGENT_SPAN = 3;
+// How far outside the outline (px) the background is sampled.
+const BACKGROUND_OFFSET = 3;
+// Anti-aliasing blends at most this many pixels (px) across an edge.
+const MAX_BLEND = 2;
+
+/**
+ * One ray's reading: the color of the stroke band at its strongest (or of
+ * the whole inside, if it has no band) and what the band gave way to.
+ */
+interface RayReading {
+  first: RGB;
+  /** How far `first` stands out from what lies on either side of it. */
+  contrast: number;
+  /** The band's samples, each with the color it blends into. */
+  band: { color: RGB; under: RGB }[];
+  /** The color inside the band, or null if the ray crossed no inner boundary. */
+  next: RGB | null;
+}
+
+/**
+ * Samples a shape's fill and stroke colors along its outline.
+ * Colors within `tolerance` (Euclidean RGB distance) of each other count
+ * as the same. Rays stop at the outlines in `nested`, the shapes inside
+ * this one, so their colors aren't taken for its fill.
+ */
+export function sampleShapeStyle(
+  data: PixelBuffer,
+  width: number,
+  height: number,
+  contour: Contour,
+  tolerance: number,
+  nested: Contour[] = []
+): ShapeStyle {
+  const n = contour.length;
+  const inside = contourMask(contour);
+  const holes = nested.map(contourMask);
+  const inImage = (p: Point) => p.x >= 0 && p.x <= width - 1 && p.y >= 0 && p.y <= height - 1;
+  // Rays run at any angle, so they read between pixels.
+  const colorAt = (p: Point): RGB => {
+    const x0 = Math.min(Math.floor(p.x), width - 2);
+    const y0 = Math.min(Math.floor(p.y), height - 2);
+    const fx = p.x - x0;
+    const fy = p.y - y0;
+    const channel = (c: number) => {
+      const at = (x: number, y: number) => data[(y * width + x) * 4 + c];
+      const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+      const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+      return Math.round(top * (1 - fy) + bottom * fy);
+    };
+    return { r: channel(0), g: channel(1), b: channel(2) };
+  };
+  const isInside = (p: Point) => {
+    const pixel = { x: Math.round(p.x), y: Math.round(p.y) };
+    return inside(pixel) && !holes.some((hole) => hole(pixel));
+  };
+
+  // With y pointing down, a positive shoelace sum means clockwise on screen,
+  // and then the inside is to the right of the direction of travel.
+  let signedArea = 0;
+  for (let i = 0; i < n; i++) {
+    const p = contour[i];
+    const q = contour[(i + 1) % n];
+    signedArea += p.x * q.y - q.x * p.y;
+  }
+  const side = signedArea >= 0 ? 1 : -1;
+
+  const background: RGB[] = [];
+  const readings: RayReading[] = [];
+  const step = Math.max(1, Math.floor(n / RAY_COUNT));
+  for (let i = 0; i < n; i += step) {
+    const before = contour[(i - TANGENT_SPAN + n) % n];
+    const after = contour[(i + TANGENT_SPAN) % n];
+    const length = Math.hypot(after.x - before.x, after.y - before.y);
+    if (length === 0) continue;
+    const nx = (-(after.y - before.y) / length) * side;
+    const ny = ((after.x - before.x) / length) * side;
+    const at = (t: number) => ({ x: contour[i].x + nx * t, y: contour[i].y + ny * t });
+
+    const outside = at(-BACKGROUND_OFFSET);
+    const local = inImage(outside) && !isInside(outside) ? colorAt(outside) : null;
+    if (local) background.push(local);
+
+    const colors: RGB[] = [];
+    for (let t = 0; ; t++) {
+      const p = at(t);
+      if (!inImage(p) || !isInside(p)) break;
+      colors.push(colorAt(p));
+    }
+    const reading = readRay(colors, local, tolerance);
+    if (reading) readings.push(reading);
+  }
+
+  if (readings.length === 0) {
+    return { fill: null, stroke: null, filled: false, strokeWidth: 0 };
+  }
+
+  // Most rays crossing the whole shape in one color: a plain filled shape.
+  const across = readings.filter((reading) => reading.next === null);
+  if (across.length * 2 >= readings.length) {
+    return {
+      fill: toColor(medianColor(across.map((reading) => reading.first))),
+      stroke: null,
+      filled: true,
+      strokeWidth: 0,
+    };
+  }
+
+  // A stroke a pixel or two wide is blended with what lies on either
+  // side of it, less so where a ray crosses it squarely over a pixel
+  // center: its color is read where it stands out most. Its width is the
+  // ink each ray crossed, in pixels' worth of that color.
+  const stroked = readings.filter((reading) => reading.next !== null);
+  const strongest = [...stroked].sort((a, b) => b.contrast - a.contrast).slice(0, Math.ceil(stroked.length / 2));
+  const stroke = medianColor(strongest.map((reading) => reading.first));
+  const strokeWidth = median(
+    stroked.map((reading) => reading.band.reduce((sum, { color, under }) => sum + coverage(color, under, stroke), 0))
+  );
+  const fill = medianColor(stroked.map((reading) => reading.next!));
+  const filled = background.length === 0 || distance(fill, medianColor(background)) > tolerance;
+  return {
+    fill: filled ? toColor(fill) : null,
+    stroke: toColor(stroke),
+    filled,
+    strokeWidth: Math.round(strokeWidth * 10) / 10,
+  };
+}
+
+// How many places along a line its color and width are read.
+const LINE_SAMPLES = 32;
+// The widest line (px) whose edges are looked for.
+const MAX_LINE_WIDTH = 20;
+
+/**
+ * Samples a straight line's color and width between `start` and `end`:
+ * at points along its middle, how far the color at its center lasts on
+ * either side. A line has no inside, so it only ever has a stroke.
+ * Unless most places read as a run of color centered on the line, with
+ * the same color on both sides, it is no stroke at all: the edge of some
+ * area, say, rather than a line drawn over the background.
+ */
+export function sampleLineStyle(
+  data: PixelBuffer,
+  width: number,
+  height: number,
+  start: Point,
+  end: Point,
+  tolerance: number
+): ShapeStyle {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const none: ShapeStyle = { fill: null, stroke: null, filled: false, strokeWidth: 0 };
+  if (length === 0) return none;
+  const nx = -(end.y - start.y) / length, ny = (end.x - start.x) / length;
+  const colorAt = (x: number, y: number): RGB | null => {
+    const px = Math.round(x), py = Math.round(y);
+    if (px < 0 || px >= width || py < 0 || py >= height) return null;
+    const i = (py * width + px) * 4;
+    return { r: data[i], g: data[i + 1], b: data[i + 2] };
+  };
+
+  const colors: RGB[] = [];
+  const widths: number[] = [];
+  // The ends may be off by a pixel or two, so only the middle is read
+  for (let k = 1; k < LINE_SAMPLES; k++) {
+    const t = 0.1 + (0.8 * k) / LINE_SAMPLES;
+    const cx = start.x + (end.x - start.x) * t, cy = start.y + (end.y - start.y) * t;
+    const center = colorAt(cx, cy);
+    if (!center) continue;
+    // How far the color lasts each way, and what it gives way to
+    const reach: number[] = [];
+    const sides: RGB[] = [];
+    for (const sign of [1, -1]) {
+      for (let d = 1; d <= MAX_LINE_WIDTH; d++) {
+        const color = colorAt(cx + sign * d * nx, cy + sign * d * ny);
+        if (!color) break;
+        if (distance(color, center) <= tolerance) continue;
+        // Count the pixel blending into whatever lies beyond by how much of
+        // the line's color it holds
+        const beyond = colorAt(cx + sign * (d + 1) * nx, cy + sign * (d + 1) * ny) ?? color;
+        reach.push(d - 1 + coverage(color, beyond, center));
+        sides.push(beyond);
+        break;
+      }
+    }
+    if (sides.length === 2 && Math.abs(reach[0] - reach[1]) <= MAX_BLEND &&
+        distance(sides[0], sides[1]) <= tolerance) {
+      colors.push(center);
+      widths.push(1 + reach[0] + reach[1]);
+    }
+  }
+  if (colors.length * 2 < LINE_SAMPLES) return none;
+  return {
+    fill: null,
+    stroke: toColor(medianColor(colors)),
+    filled: false,
+    strokeWidth: Math.round(median(widths) * 10) / 10,
+  };
+}
+
+/**
+ * Reads the colors along one ray, from the outline inward. An edge map's
+ * outline can run a pixel or two outside the shape, so any `background`
+ * at the start is skipped. The stroke band then lasts until the color
+ * settles (two samples alike) on one clearly different from the band at
+ * its strongest: the inner boundary. A band that is only the background
+ * blending into the inside is no stroke, and neither is one that takes
+ * up half the ray, which is the fill giving way to whatever lies past
+ * the far side. Without an inner boundary the ray read just the fill.
+ */
+function readRay(colors: RGB[], background: RGB | null, tolerance: number): RayReading | null {
+  let start = 0;
+  while (background && start < colors.length && distance(colors[start], background) <= tolerance) start++;
+  if (start + 1 >= colors.length) return null;
+  const plain = (): RayReading => ({ first: medianColor(colors.slice(start)), contrast: 0, band: [], next: null });
+
+  // Without the background to compare with, the band starts at its strongest
+  let peak = start;
+  let boundary = -1;
+  for (let i = start; i + 1 < colors.length; i++) {
+    if (distance(colors[i], colors[i + 1]) <= tolerance && distance(colors[i], colors[peak]) > tolerance) {
+      // A lone sample between the background and this color only blends into it
+      const leadIn = background !== null && distance(colors[peak], colors[peak + 1]) > tolerance &&
+        distanceToSegment(colors[peak], background, colors[i]) <= tolerance;
+      if (!leadIn) {
+        boundary = i;
+        break;
+      }
+    }
+    if (background && distance(colors[i], background) > distance(colors[peak], background)) peak = i;
+  }
+  if (boundary === -1 || 2 * (boundary - start) >= colors.length - start) return plain();
+
+  // The inside's own median, clear of any blending at its ends
+  let end = boundary;
+  while (end < colors.length && distance(colors[end], colors[boundary]) <= tolerance) end++;
+  const next = medianColor(colors.slice(boundary, end));
+  const first = colors[peak];
+  if (distanceToSegment(first, background ?? next, next) <= tolerance) return plain();
+
+  const band = colors.slice(start, boundary).map((color, k) => ({
+    color,
+    under: start + k < peak && background ? background : next,
+  }));
+  return { first, contrast: Math.min(distance(first, background ?? next), distance(first, next)), band, next };
+}
+
+/** Distance from `color` to the nearest blend of `a` and `b`. */
+function distanceToSegment(color: RGB, a: RGB, b: RGB): number {
+  const span = distance(a, b) ** 2;
+  const t = span === 0 ? 0 : Math.max(0, Math.min(1,
+    ((color.r - a.r) * (b.r - a.r) + (color.g - a.g) * (b.g - a.g) + (color.b - a.b) * (b.b - a.b)) / span));
+  return distance(color, { r: a.r + (b.r - a.r) * t, g: a.g + (b.g - a.g) * t, b: a.b + (b.b - a.b) * t });
+}
+
+/** How far `blend` lies from `from` toward `to`, between 0 and 1. */
+function coverage(blend: RGB, from: RGB, to: RGB): number {
+  const span = distance(from, to);
+  return span === 0 ? 0 : Math.min(1, distance(blend, from) / span);
+}
+
+/**
+ * A test for whether a pixel lies inside the closed contour (its own
+ * pixels included), filled row by row with the even-odd rule.
+ */
+function contourMask(contour: Contour): (p: Point) => boolean {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of contour) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  const w = maxX - minX + 1;
+  const h = maxY - minY + 1;
+  const mask = new Uint8Array(w * h);
+  for (const p of contour) mask[(p.y - minY) * w + (p.x - minX)] = 1;
+
+  for (let y = minY; y <= maxY; y++) {
+    // Where the outline crosses this row, taking rows through pixel centers
+    const crossings: number[] = [];
+    for (let i = 0; i < contour.length; i++) {
+      const a = contour[i];
+      const b = contour[(i + 1) % contour.length];
+      if ((a.y > y) !== (b.y > y)) {
+        crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      for (let x = Math.ceil(crossings[k]); x <= Math.floor(crossings[k + 1]); x++) {
+        mask[(y - minY) * w + (x - minX)] = 1;
+      }
+    }
+  }
+
+  return (p: Point) =>
+    p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY && mask[(p.y - minY) * w + (p.x - minX)] === 1;
+}
+
+type RGB = Pick<Color, "r" | "g" | "b">;
+
+function distance(a: RGB, b: RGB): number {
+  return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+/** The per-channel median, which ignores the odd ray that hit something else. */
+function medianColor(colors: RGB[]): RGB {
+  return {
+    r: median(colors.map((c) => c.r)),
+    g: median(colors.map((c) => c.g)),
+    b: median(colors.map((c) => c.b)),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Adds the hex form to an RGB triple. */
+function toColor({ r, g, b }: RGB): Color {
+  return { r, g, b, hex: "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("") };
+}
@@ -0,0 +1,80 @@
+import type { Contour } from "./detector-core.js";
+import { shapeDescriptors } from "./descriptors.js";
+import type { ShapeDescriptors } from "./descriptors.js";
+import type { MatchMethod } from "./detector-options.js";
+
+// --- TEMPLATE MATCHING ---
+// A template is the outline of a reference shape, boiled down to
+// descriptors that don't depend on where it sits, how big it is or which
+// way it is turned. Every contour in an image is compared with it, and
+// those similar enough come out as "custom" shapes.
+
+// --- Tuned ---
+// The descriptor distance at which similarity has fallen to 1/e (0.37).
+// Between two tracings of the same shape the Fourier distance stays under
+// about 0.02 (similarity 0.82, above the default `minTemplateSimilarity`),
+// and it is 0.07 (0.5) from a regular pentagon to a circle. The Hu
+// distance tells shapes apart less well: 0.01 between those two.
+const FOURIER_DISTANCE_SCALE = 0.1;
+const HU_DISTANCE_SCALE = 0.05;
+// Hu moments smaller than this are too close to 0 for their logarithm to
+// mean anything, and are left out of the comparison (as in OpenCV).
+const MIN_HU_MOMENT = 1e-5;
+
+export interface ShapeTemplate {
+  /** What matches are labeled with. */
+  label: string;
+  /** The reference shape's Hu moments and Fourier descriptors. */
+  huMoments: number[];
+  fourier: number[];
+}
+
+/** A template from the outline of a reference shape. */
+export function templateFromContour(contour: Contour, label: string): ShapeTemplate {
+  return templateFromDescriptors(shapeDescriptors(contour), label);
+}
+
+/**
+ * A template from a detection's `descriptors` (see the `descriptors`
+ * option), to find more shapes like it.
+ */
+export function templateFromDescriptors(
+  descriptors: Pick<ShapeDescriptors, "huMoments" | "fourier">,
+  label: string
+): ShapeTemplate {
+  return { label, huMoments: [...descriptors.huMoments], fourier: [...descriptors.fourier] };
+}
+
+/**
+ * How alike a shape's descriptors and a template are, from 1 for the same
+ * shape down towards 0. "fourier" compares their Fourier descriptors
+ * (Euclidean distance, leaving out the first, which is always 1); "hu"
+ * sums the differences of the reciprocal logs of their Hu moments, like
+ * OpenCV's `matchShapes`.
+ */
+export function templateSimilarity(
+  descriptors: Pick<ShapeDescriptors, "huMoments" | "fourier">,
+  template: ShapeTemplate,
+  method: MatchMethod
+): number {
+  if (method === "hu") {
+    return Math.exp(-huDistance(descriptors.huMoments, template.huMoments) / HU_DISTANCE_SCALE);
+  }
+  let sum = 0;
+  const count = Math.min(descriptors.fourier.length, template.fourier.length);
+  for (let i = 1; i < count; i++) {
+    sum += (descriptors.fourier[i] - template.fourier[i]) ** 2;
+  }
+  return Math.exp(-Math.sqrt(sum) / FOURIER_DISTANCE_SCALE);
+}
+
+/** Sum over the Hu moments both shapes have of |1/m_a − 1/m_b|, m = sign(h)·log10|h|. */
+function huDistance(a: number[], b: number[]): number {
+  const logScale = (h: number) => Math.sign(h) * Math.log10(Math.abs(h));
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (Math.abs(a[i]) < MIN_HU_MOMENT || Math.abs(b[i]) < MIN_HU_MOMENT) continue;
+    distance += Math.abs(1 / logScale(a[i]) - 1 / logScale(b[i]));
+  }
+  return distance;
+}
@@ -3,13 +3,22 @@ export const testImages = {
   "circle_simple.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8Y2lyY2xlIGN4PSIxMDAiIGN5PSIxMDAiIHI9IjUwIiBmaWxsPSJibGFjayIvPgo8L3N2Zz4=",
   "complex_scene.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMzAwIiBoZWlnaHQ9IjI1MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICAKICAgICAgICA8Y2lyY2xlIGN4PSI5MCIgY3k9IjEwNSIgcj0iNDUiIGZpbGw9ImJsYWNrIi8+CiAgICAgICAgPHJlY3QgeD0iMTUwIiB5PSI0MCIgd2lkdGg9IjEwMCIgaGVpZ2h0PSI2MCIgZmlsbD0iYmxhY2siLz4KICAgICAgICA8cG9seWdvbiBwb2ludHM9IjIxMC4wLDEzMi4wIDIyMC42LDE1Ny40IDI0OC4wLDE1OS42IDIyNy4xLDE3Ny42IDIzMy41LDIwNC40IDIxMC4wLDE5MC4wIDE4Ni41LDIwNC40IDE5Mi45LDE3Ny42IDE3Mi4wLDE1OS42IDE5OS40LDE1Ny40IiBmaWxsPSJibGFjayIvPgogICAgICAgIDxsaW5lIHgxPSIxMCIgeTE9IjIwMCIgeDI9IjgwIiB5Mj0iMTgwIiBzdHJva2U9ImdyYXkiIHN0cm9rZS13aWR0aD0iMiIvPgogICAgICAgIDxsaW5lIHgxPSIyNTAiIHkxPSIzMCIgeDI9IjI4MCIgeTI9IjEwMCIgc3Ryb2tlPSJncmF5IiBzdHJva2Utd2lkdGg9IjIiLz4KICAgIAo8L3N2Zz4=",
   "edge_cases.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjUwIiBoZWlnaHQ9IjE4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICAKICAgICAgICA8cG9seWdvbiBwb2ludHM9IjI1LDEwIDEwLDM1IDQwLDM1IiBmaWxsPSJibGFjayIvPgogICAgICAgIDxnIHRyYW5zZm9ybT0idHJhbnNsYXRlKDEzNSw4MCkgcm90YXRlKDMwKSI+CiAgICAgICAgICAgIDxyZWN0IHg9Ii01NSIgeT0iLTM1IiB3aWR0aD0iMTEwIiBoZWlnaHQ9IjcwIiBmaWxsPSJibGFjayIvPgogICAgICAgIDwvZz4KICAgIAo8L3N2Zz4=",
+  "ellipses.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMzIwIiBoZWlnaHQ9IjI0MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8ZWxsaXBzZSBjeD0iOTAiIGN5PSI4MCIgcng9IjYwIiByeT0iMzAiIGZpbGw9ImJsYWNrIi8+CiAgICA8ZyB0cmFuc2Zvcm09InRyYW5zbGF0ZSgyMjAsMTUwKSByb3RhdGUoNDApIj4KICAgICAgICA8ZWxsaXBzZSBjeD0iMCIgY3k9IjAiIHJ4PSI2NSIgcnk9IjMwIiBmaWxsPSJibGFjayIvPgogICAgPC9nPgogICAgPGNpcmNsZSBjeD0iNzAiIGN5PSIxODUiIHI9IjM1IiBmaWxsPSJibGFjayIvPgo8L3N2Zz4=",
+  "quadrilaterals.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMzYwIiBoZWlnaHQ9IjI2MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjgwLDIwIDE0MCw4MCA4MCwxNDAgMjAsODAiIGZpbGw9ImJsYWNrIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjI0MCwyMCAyOTAsODAgMjQwLDE0MCAxOTAsODAiIGZpbGw9ImJsYWNrIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjMwLDE4MCAxMzAsMTgwIDE2MCwyNDAgNjAsMjQwIiBmaWxsPSJibGFjayIvPgogICAgPHBvbHlnb24gcG9pbnRzPSIyMDAsMTgwIDMwMCwxODAgMzQwLDI0MCAxNzAsMjQwIiBmaWxsPSJibGFjayIvPgo8L3N2Zz4=",
+  "equal_luminance.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMzYwIiBoZWlnaHQ9IjI0MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IiM3Nzc3NzciLz4KICAgIDxjaXJjbGUgY3g9IjcwIiBjeT0iNzAiIHI9IjQ1IiBmaWxsPSIjZWY0NDQ0Ii8+CiAgICA8cG9seWdvbiBwb2ludHM9IjE4MCwyNSAyNDAsMTI1IDEyMCwxMjUiIGZpbGw9IiMzY2EwM2MiLz4KICAgIDxyZWN0IHg9IjI3MCIgeT0iMzAiIHdpZHRoPSI3MCIgaGVpZ2h0PSI5MCIgZmlsbD0iIzYwNmVlNiIvPgogICAgPHJlY3QgeD0iMjAiIHk9IjE1MCIgd2lkdGg9IjEwMCIgaGVpZ2h0PSI3MCIgZmlsbD0iIzYwNmVlNiIvPgogICAgPHJlY3QgeD0iMTkwIiB5PSIxNDAiIHdpZHRoPSIxNTAiIGhlaWdodD0iOTAiIGZpbGw9IiMzY2EwM2MiLz4KICAgIDxjaXJjbGUgY3g9IjI2NSIgY3k9IjE4NSIgcj0iMjgiIGZpbGw9IiNlZjQ0NDQiLz4KPC9zdmc+Cg==",
+  "touching_shapes.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMzYwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8Y2lyY2xlIGN4PSI2MCIgY3k9IjEwMCIgcj0iNDUiIGZpbGw9ImJsYWNrIi8+CiAgICA8cmVjdCB4PSIxMDUiIHk9IjU1IiB3aWR0aD0iOTAiIGhlaWdodD0iOTAiIGZpbGw9ImJsYWNrIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjE5NSwxMDAgMjkwLDQwIDI5MCwxNjAiIGZpbGw9ImJsYWNrIi8+Cjwvc3ZnPgo=",
+  "overlapping_shapes.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8Y2lyY2xlIGN4PSI4MCIgY3k9IjgwIiByPSI0NSIgZmlsbD0iYmxhY2siLz4KICAgIDxjaXJjbGUgY3g9IjE1MCIgY3k9IjgwIiByPSI0MCIgZmlsbD0iYmxhY2siLz4KICAgIDxyZWN0IHg9IjIzMCIgeT0iMzAiIHdpZHRoPSIxNDAiIGhlaWdodD0iMTAwIiBmaWxsPSJibGFjayIvPgogICAgPGNpcmNsZSBjeD0iMjE1IiBjeT0iODAiIHI9IjM1IiBmaWxsPSJibGFjayIvPgogICAgPHJlY3QgeD0iNDAiIHk9IjE3MCIgd2lkdGg9IjkwIiBoZWlnaHQ9IjkwIiBmaWxsPSJibGFjayIvPgogICAgPHJlY3QgeD0iMTAwIiB5PSIyMDAiIHdpZHRoPSI4MCIgaGVpZ2h0PSI4MCIgZmlsbD0iYmxhY2siLz4KICAgIDxjaXJjbGUgY3g9IjI0MCIgY3k9IjIyNSIgcj0iMjgiIGZpbGw9ImJsYWNrIi8+CiAgICA8Y2lyY2xlIGN4PSIyOTAiIGN5PSIyMjUiIHI9IjI4IiBmaWxsPSJibGFjayIvPgogICAgPGNpcmNsZSBjeD0iMzQwIiBjeT0iMjI1IiByPSIyOCIgZmlsbD0iYmxhY2siLz4KPC9zdmc+Cg==",
+  "broken_shapes.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iNDIwIiBoZWlnaHQ9IjI4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8Y2lyY2xlIGN4PSI5MCIgY3k9IjEwMCIgcj0iNTUiIGZpbGw9Im5vbmUiIHN0cm9rZT0iIzFmMjkzNyIgc3Ryb2tlLXdpZHRoPSI0Ii8+CiAgICA8cmVjdCB4PSI4MCIgeT0iMzUiIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgZmlsbD0id2hpdGUiLz4KICAgIDxyZWN0IHg9IjEzNSIgeT0iOTAiIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgZmlsbD0id2hpdGUiLz4KICAgIDxyZWN0IHg9IjU1IiB5PSIxNDUiIHdpZHRoPSIzMCIgaGVpZ2h0PSIyMCIgZmlsbD0id2hpdGUiLz4KICAgIDxjaXJjbGUgY3g9IjMwMCIgY3k9IjIwMCIgcj0iNDUiIGZpbGw9Im5vbmUiIHN0cm9rZT0iI2RjMjYyNiIgc3Ryb2tlLXdpZHRoPSIzIi8+CiAgICA8cmVjdCB4PSIyOTMiIHk9IjE1MCIgd2lkdGg9IjE0IiBoZWlnaHQ9IjE0IiBmaWxsPSJ3aGl0ZSIvPgogICAgPHJlY3QgeD0iMzM4IiB5PSIxOTMiIHdpZHRoPSIxNCIgaGVpZ2h0PSIxNCIgZmlsbD0id2hpdGUiLz4KICAgIDxyZWN0IHg9IjI5MyIgeT0iMjM4IiB3aWR0aD0iMTQiIGhlaWdodD0iMTQiIGZpbGw9IndoaXRlIi8+CiAgICA8cmVjdCB4PSIyNDgiIHk9IjE5MyIgd2lkdGg9IjE0IiBoZWlnaHQ9IjE0IiBmaWxsPSJ3aGl0ZSIvPgogICAgPGxpbmUgeDE9IjIwMCIgeTE9IjQwIiB4Mj0iMzkwIiB5Mj0iMTEwIiBzdHJva2U9IiMxMTE4MjciIHN0cm9rZS13aWR0aD0iMyIvPgogICAgPGxpbmUgeDE9IjMwIiB5MT0iMjYwIiB4Mj0iMTEwIiB5Mj0iMjE3LjY1IiBzdHJva2U9IiMxMTE4MjciIHN0cm9rZS13aWR0aD0iMyIvPgogICAgPGxpbmUgeDE9IjExNCIgeTE9IjIxNS41MyIgeDI9IjIwMCIgeTI9IjE3MCIgc3Ryb2tlPSIjMTExODI3IiBzdHJva2Utd2lkdGg9IjMiLz4KPC9zdmc+Cg==",
   "mixed_shapes_simple.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjUwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICAKICAgICAgICA8Y2lyY2xlIGN4PSI1MCIgY3k9IjUwIiByPSIzMCIgZmlsbD0iYmxhY2siLz4KICAgICAgICA8cG9seWdvbiBwb2ludHM9IjE1NSwxNSAxMjAsODUgMTkwLDg1IiBmaWxsPSJibGFjayIvPgogICAgICAgIDxyZWN0IHg9IjYwIiB5PSIxMTAiIHdpZHRoPSI4MCIgaGVpZ2h0PSI1MCIgZmlsbD0iYmxhY2siLz4KICAgIAo8L3N2Zz4=",
   "no_shapes.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICAKICAgICAgICA8bGluZSB4MT0iNTAiIHkxPSI1MCIgeDI9IjE1MCIgeTI9IjgwIiBzdHJva2U9ImdyYXkiIHN0cm9rZS13aWR0aD0iMiIvPgogICAgICAgIDxsaW5lIHgxPSI4MCIgeTE9IjEyMCIgeDI9IjEyMCIgeTI9IjE2MCIgc3Ryb2tlPSJncmF5IiBzdHJva2Utd2lkdGg9IjIiLz4KICAgICAgICA8dGV4dCB4PSI1MCIgeT0iMTAwIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iMTYiIGZpbGw9ImdyYXkiPk5vIGdlb21ldHJpYyBzaGFwZXM8L3RleHQ+CiAgICAKPC9zdmc+",
   "noisy_background.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMzUwIiBoZWlnaHQ9IjIyMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICAKICAgICAgICA8cmVjdCB4PSIwIiB5PSIwIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjU1OTYyNDY1NDM0MzY0NzQiLz48cmVjdCB4PSIzNSIgeT0iMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE2MDgzMTcxNzQ5MTk3NjE0Ii8+PHJlY3QgeD0iNzAiIHk9IjAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xOTU5Njk5Mzc4MDQyMjkxNCIvPjxyZWN0IHg9IjEwNSIgeT0iMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI1MjEzMzEwNjIyNTI0NjgiLz48cmVjdCB4PSIxNDAiIHk9IjAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yODQ4NDYzNjE0NDQxMTk1NyIvPjxyZWN0IHg9IjE3NSIgeT0iMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI3MzUxMjc5MTExNzYwNzIzIi8+PHJlY3QgeD0iMjEwIiB5PSIwIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjgzMTk3MjMyNDI3Nzg5MjciLz48cmVjdCB4PSIyNDUiIHk9IjAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMDYzNDEwMTAwMDQ0ODc4NCIvPjxyZWN0IHg9IjI4MCIgeT0iMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE0MTk2MDM3ODcyMTAyNTQiLz48cmVjdCB4PSIzMTUiIHk9IjAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yOTUwNzEzODE3MTE5ODEyIi8+PHJlY3QgeD0iMCIgeT0iMjIiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yMjM1ODQyMDY2MDc4ODU1OCIvPjxyZWN0IHg9IjM1IiB5PSIyMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE1Mjg0MzcxNzEyNTg4MjI3Ii8+PHJlY3QgeD0iNzAiIHk9IjIyIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTQ5OTcxOTM1Mzc2MTYwNSIvPjxyZWN0IHg9IjEwNSIgeT0iMjIiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yODg4MTIxNzM3MTQxMzAwNCIvPjxyZWN0IHg9IjE0MCIgeT0iMjIiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yNTQ4ODg1ODI5ODQzOTIzIi8+PHJlY3QgeD0iMTc1IiB5PSIyMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjEzNDYyNzkxNzAxMjczMTcyIi8+PHJlY3QgeD0iMjEwIiB5PSIyMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE2NzE1MzA0MjU0NjAzOTQiLz48cmVjdCB4PSIyNDUiIHk9IjIyIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTgwMzI5MTExMTY3NjQ1MzgiLz48cmVjdCB4PSIyODAiIHk9IjIyIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTQ2Mzg5NjI4MjI3MzM1MTIiLz48cmVjdCB4PSIzMTUiIHk9IjIyIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjg0NTU3OTc4OTUxODc3NCIvPjxyZWN0IHg9IjAiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjkzNDEzODU2Njk5Mjk1MSIvPjxyZWN0IHg9IjM1IiB5PSI0NCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjEwOTM0NTM2NjA5NDM1MjI5Ii8+PHJlY3QgeD0iNzAiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTY2OTA2NDkxODMxNDc2Ii8+PHJlY3QgeD0iMTA1IiB5PSI0NCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjIzMzE1NTk4ODU0Mjc5MDIiLz48cmVjdCB4PSIxNDAiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjY2MjY0NTM4MDAyMTkxNjMiLz48cmVjdCB4PSIxNzUiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTM2Mjk5NjY1MzUwNjU0ODgiLz48cmVjdCB4PSIyMTAiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjQ5ODU3MjQxNDI0MDYwMDQiLz48cmVjdCB4PSIyNDUiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTQyMTk5NjI3Mjc2NjIxNjQiLz48cmVjdCB4PSIyODAiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjk5OTgzNzc0Njk4OTgzNzQiLz48cmVjdCB4PSIzMTUiIHk9IjQ0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjM5NDA3MTY5NDAzMzM1MTIiLz48cmVjdCB4PSIwIiB5PSI2NiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE1ODQ2MzEyMTE0NzEwMzQiLz48cmVjdCB4PSIzNSIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMDc2ODI3OTg5MzcwMDUwMSIvPjxyZWN0IHg9IjcwIiB5PSI2NiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjIyMDM2ODQyOTM3MzEzODI3Ii8+PHJlY3QgeD0iMTA1IiB5PSI2NiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjIyNDkyNjYxNTg5MDc4OCIvPjxyZWN0IHg9IjE0MCIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNDkwNzQyNzM4NDkzNDY2NiIvPjxyZWN0IHg9IjE3NSIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNzA0ODg2OTA4Njk2NDgwNSIvPjxyZWN0IHg9IjIxMCIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNzg5MTAzMDMyOTM1NDU2MyIvPjxyZWN0IHg9IjI0NSIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMzY4MDU3NzQyODQ3NTAyMSIvPjxyZWN0IHg9IjI4MCIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yMTgzMDk1NjYxNDA3OTU1NSIvPjxyZWN0IHg9IjMxNSIgeT0iNjYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMjQ1NDY5NzI1NzgxNjI5Ii8+PHJlY3QgeD0iMCIgeT0iODgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMzI1MDc0MzQ2MzU5MjgyNiIvPjxyZWN0IHg9IjM1IiB5PSI4OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE0MTI5MTI4NDc2NDA4MTgxIi8+PHJlY3QgeD0iNzAiIHk9Ijg4IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjc2NzY5MzI4MDI2MjcwNjMiLz48cmVjdCB4PSIxMDUiIHk9Ijg4IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjQ4NDQwNTEzODE1NTIxNTciLz48cmVjdCB4PSIxNDAiIHk9Ijg4IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTAyODMzNzU2Nzk0MTA4OCIvPjxyZWN0IHg9IjE3NSIgeT0iODgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yNTcxNjU3MDUwOTExMTQ3Ii8+PHJlY3QgeD0iMjEwIiB5PSI4OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjEwOTg2ODczNTY1MDIzMzM5Ii8+PHJlY3QgeD0iMjQ1IiB5PSI4OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI4MDMzNTkzMDMwMTkwNzczIi8+PHJlY3QgeD0iMjgwIiB5PSI4OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI0NDg1MjcxNzUxMDU3MTU4Ii8+PHJlY3QgeD0iMzE1IiB5PSI4OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE4OTkxODkyNzUzNjA2NTkiLz48cmVjdCB4PSIwIiB5PSIxMTAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yOTg4MzM0OTQzNDgzMzc2Ii8+PHJlY3QgeD0iMzUiIHk9IjExMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI1MzE5NDc2ODEyNzI3ODciLz48cmVjdCB4PSI3MCIgeT0iMTEwIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjYwODk1NzUyMTA1NDY5NjciLz48cmVjdCB4PSIxMDUiIHk9IjExMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE1OTE5OTU3Nzc2ODYxNCIvPjxyZWN0IHg9IjE0MCIgeT0iMTEwIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTE0NzU2MDI1ODI0OTg3MjIiLz48cmVjdCB4PSIxNzUiIHk9IjExMCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjIyMTEyNjA0OTk2MDU0NDA1Ii8+PHJlY3QgeD0iMjEwIiB5PSIxMTAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yODM2NzE0NTk4Mjk1Mjk4Ii8+PHJlY3QgeD0iMjQ1IiB5PSIxMTAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yOTE3MzY0NDgzMjMzMjA3Ii8+PHJlY3QgeD0iMjgwIiB5PSIxMTAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNDM0NDY5MjYyMDU3ODk3Ii8+PHJlY3QgeD0iMzE1IiB5PSIxMTAiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNDMzNTc2MzM1NzIxNDUxMiIvPjxyZWN0IHg9IjAiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjExMDgzMzU5ODQxNjU2MTgyIi8+PHJlY3QgeD0iMzUiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE2MDEwODA1Mjc4Mjk5NCIvPjxyZWN0IHg9IjcwIiB5PSIxMzIiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yMjIyMzA5NTU3MTE0NDM5NyIvPjxyZWN0IHg9IjEwNSIgeT0iMTMyIiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjc0Mjg1MzY1NjAwNzk2ODYiLz48cmVjdCB4PSIxNDAiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE0MjU4OTY5MTE4MjU3NTgiLz48cmVjdCB4PSIxNzUiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI5OTQ3OTc3MDUzNzA2MDUiLz48cmVjdCB4PSIyMTAiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI3NTEzMDM3MTE4OTM1ODgiLz48cmVjdCB4PSIyNDUiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjIzMTUzMDg5Nzk4NDA1OTgiLz48cmVjdCB4PSIyODAiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI5MTMxMjMwNjgwMjAwMTgiLz48cmVjdCB4PSIzMTUiIHk9IjEzMiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjEwMjQxNjA3MTI2NDY4MDEiLz48cmVjdCB4PSIwIiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNDIwODE1NDEwMjUxNTQ1NSIvPjxyZWN0IHg9IjM1IiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yNDg2NjQ5ODc4NzkwMTc4MyIvPjxyZWN0IHg9IjcwIiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yNzQ5ODA0NTc1Mzk2NjY0MyIvPjxyZWN0IHg9IjEwNSIgeT0iMTU0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjk2NDI0Njg5NDExNDA0NjUiLz48cmVjdCB4PSIxNDAiIHk9IjE1NCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE0MjIxNzM5OTQyMzAzMTcyIi8+PHJlY3QgeD0iMTc1IiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yODk3MjE0NDcyMDEwODg1Ii8+PHJlY3QgeD0iMjEwIiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMzgwMjI1ODg2MDg2OTE3Ii8+PHJlY3QgeD0iMjQ1IiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yODIzMDY1NTU5NTE5OTE3Ii8+PHJlY3QgeD0iMjgwIiB5PSIxNTQiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMDI4NDgxNDQ4Mzc1MjcwOSIvPjxyZWN0IHg9IjMxNSIgeT0iMTU0IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTg5OTA4Mzc1NzY5MzU5ODIiLz48cmVjdCB4PSIwIiB5PSIxNzYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMDI0MjQwMzYzMDc2Nzg3MSIvPjxyZWN0IHg9IjM1IiB5PSIxNzYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yNjIyMTQ4OTMwNzI3MzU4Ii8+PHJlY3QgeD0iNzAiIHk9IjE3NiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjI0MDU5MDY3OTU4MDIyOTU2Ii8+PHJlY3QgeD0iMTA1IiB5PSIxNzYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yMjc2Mzc5NTU0NzI5MDY0NCIvPjxyZWN0IHg9IjE0MCIgeT0iMTc2IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTM1NTUyNTMxMjA5MTk4OTQiLz48cmVjdCB4PSIxNzUiIHk9IjE3NiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE0ODI4NzQwODM1MDQzMjU1Ii8+PHJlY3QgeD0iMjEwIiB5PSIxNzYiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNTk2MjQ2MDg5ODk4Mjk0NCIvPjxyZWN0IHg9IjI0NSIgeT0iMTc2IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTM1MzIyNDg0MDYzMTI5NSIvPjxyZWN0IHg9IjI4MCIgeT0iMTc2IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMjE0MDM5NDQzNDkxNDc0NDQiLz48cmVjdCB4PSIzMTUiIHk9IjE3NiIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE0NTI1NjY5ODYxMDI3MzkiLz48cmVjdCB4PSIwIiB5PSIxOTgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yODk2NTY5ODEzNDUzODU2NCIvPjxyZWN0IHg9IjM1IiB5PSIxOTgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4yNDE2MzgxNDc2ODE0MDA4OCIvPjxyZWN0IHg9IjcwIiB5PSIxOTgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xMTc3MTQ2MDMzNTIwOTQxMiIvPjxyZWN0IHg9IjEwNSIgeT0iMTk4IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTIyMjk5NTkzNjMzMjkwNDYiLz48cmVjdCB4PSIxNDAiIHk9IjE5OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjIyMjA3NTE0MjU2MjI1NzkiLz48cmVjdCB4PSIxNzUiIHk9IjE5OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjE1OTg2MjUxMzQ5ODY5OTY1Ii8+PHJlY3QgeD0iMjEwIiB5PSIxOTgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xOTMyMzI3OTAzMzczNDQwOCIvPjxyZWN0IHg9IjI0NSIgeT0iMTk4IiB3aWR0aD0iMzUiIGhlaWdodD0iMjIiIGZpbGw9ImdyYXkiIG9wYWNpdHk9IjAuMTI1MTUyMzk5NzYwODYwMjMiLz48cmVjdCB4PSIyODAiIHk9IjE5OCIgd2lkdGg9IjM1IiBoZWlnaHQ9IjIyIiBmaWxsPSJncmF5IiBvcGFjaXR5PSIwLjExNDc0ODM4OTA0MzgyMjc4Ii8+PHJlY3QgeD0iMzE1IiB5PSIxOTgiIHdpZHRoPSIzNSIgaGVpZ2h0PSIyMiIgZmlsbD0iZ3JheSIgb3BhY2l0eT0iMC4xNzU2ODkwODUwMzE5NTI4Ii8+CiAgICAgICAgPGNpcmNsZSBjeD0iMTIwIiBjeT0iMTMwIiByPSI1MCIgZmlsbD0iYmxhY2siLz4KICAgICAgICA8cG9seWdvbiBwb2ludHM9IjI0NS4wLDQ3LjAgMjg3LjgsNzguMSAyNzEuNSwxMjguNCAyMTguNSwxMjguNCAyMDIuMiw3OC4xIiBmaWxsPSJibGFjayIvPgogICAgCjwvc3ZnPg==",
   "pentagon_regular.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjEwMC4wLDM3LjAgMTYxLjgsODEuOSAxMzguMiwxNTQuNiA2MS44LDE1NC42IDM4LjIsODEuOSIgZmlsbD0iYmxhY2siLz4KPC9zdmc+",
   "rectangle_square.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cmVjdCB4PSI0MCIgeT0iNDAiIHdpZHRoPSIxMjAiIGhlaWdodD0iMTIwIiBmaWxsPSJibGFjayIvPgo8L3N2Zz4=",
   "star_five_point.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjEwMC4wLDMwLjAgMTE3LjYsNzUuNyAxNjYuNiw3OC40IDEyOC41LDEwOS4zIDE0MS4xLDE1Ni42IDEwMC4wLDEzMC4wIDU4LjksMTU2LjYgNzEuNSwxMDkuMyAzMy40LDc4LjQgODIuNCw3NS43IiBmaWxsPSJibGFjayIvPgo8L3N2Zz4=",
-  "triangle_basic.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjEwMCwzMCAyNSwxNjAgMTc1LDE2MCIgZmlsbD0iYmxhY2siLz4KPC9zdmc+"
+  "triangle_basic.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjEwMCwzMCAyNSwxNjAgMTc1LDE2MCIgZmlsbD0iYmxhY2siLz4KPC9zdmc+",
+  "many_sided_polygons.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iNTIwIiBoZWlnaHQ9IjE3MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjcwLjAsMzAuMCA5OS43LDM4LjcgMTIwLjAsNjIuMiAxMjQuNCw5Mi44IDExMS42LDEyMS4wIDg1LjUsMTM3LjggNTQuNSwxMzcuOCAyOC40LDEyMS4wIDE1LjYsOTIuOCAyMC4wLDYyLjIgNDAuMywzOC43IiBmaWxsPSJibGFjayIvPgogICAgPHBvbHlnb24gcG9pbnRzPSIxOTYuMCwzMC4wIDIyMy41LDM3LjQgMjQzLjYsNTcuNSAyNTEuMCw4NS4wIDI0My42LDExMi41IDIyMy41LDEzMi42IDE5Ni4wLDE0MC4wIDE2OC41LDEzMi42IDE0OC40LDExMi41IDE0MS4wLDg1LjAgMTQ4LjQsNTcuNSAxNjguNSwzNy40IiBmaWxsPSJibGFjayIvPgogICAgPHBvbHlnb24gcG9pbnRzPSIzMjIuMCwzMC4wIDM0Ny42LDM2LjMgMzY3LjMsNTMuOCAzNzYuNiw3OC40IDM3My40LDEwNC41IDM1OC41LDEyNi4yIDMzNS4yLDEzOC40IDMwOC44LDEzOC40IDI4NS41LDEyNi4yIDI3MC42LDEwNC41IDI2Ny40LDc4LjQgMjc2LjcsNTMuOCAyOTYuNCwzNi4zIiBmaWxsPSJibGFjayIvPgogICAgPHBvbHlnb24gcG9pbnRzPSI0NDguMCwzMC4wIDQ3MS45LDM1LjQgNDkxLjAsNTAuNyA1MDEuNiw3Mi44IDUwMS42LDk3LjIgNDkxLjAsMTE5LjMgNDcxLjksMTM0LjYgNDQ4LjAsMTQwLjAgNDI0LjEsMTM0LjYgNDA1LjAsMTE5LjMgMzk0LjQsOTcuMiAzOTQuNCw3Mi44IDQwNS4wLDUwLjcgNDI0LjEsMzUuNCIgZmlsbD0iYmxhY2siLz4KPC9zdmc+",
+  "fat_stars.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iNDIwIiBoZWlnaHQ9IjE2MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9Ijc1LjAsMjAuMCAxMDMuMyw1MS43IDEzNS4wLDgwLjAgMTAzLjMsMTA4LjMgNzUuMCwxNDAuMCA0Ni43LDEwOC4zIDE1LjAsODAuMCA0Ni43LDUxLjciIGZpbGw9ImJsYWNrIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjIxMC4wLDIwLjAgMjM0LjcsNDYuMCAyNjcuMSw2MS41IDI0OS45LDkzLjAgMjQ1LjMsMTI4LjUgMjEwLjAsMTIyLjAgMTc0LjcsMTI4LjUgMTcwLjEsOTMuMCAxNTIuOSw2MS41IDE4NS4zLDQ2LjAiIGZpbGw9ImJsYWNrIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjM0NS4wLDIwLjAgMzY3LjUsNDEuMCAzOTcuMCw1MC4wIDM5MC4wLDgwLjAgMzk3LjAsMTEwLjAgMzY3LjUsMTE5LjAgMzQ1LjAsMTQwLjAgMzIyLjUsMTE5LjAgMjkzLjAsMTEwLjAgMzAwLjAsODAuMCAyOTMuMCw1MC4wIDMyMi41LDQxLjAiIGZpbGw9ImJsYWNrIi8+Cjwvc3ZnPg==",
+  "concave_unmerged.png": "data:image/svg+xml;base64,PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyB3aWR0aD0iMTgwIiBoZWlnaHQ9IjE4MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICAgIDxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IndoaXRlIi8+CiAgICA8cG9seWdvbiBwb2ludHM9IjkwLjAsMjAuMCA5OC40LDU2LjAgMTIyLjUsMjguMCAxMTMuMiw2My44IDE0Ny42LDUwLjIgMTIyLjcsNzcuNiAxNTkuNSw4MS42IDEyNC43LDk0LjIgMTU1LjUsMTE0LjggMTE4LjgsMTA5LjkgMTM2LjQsMTQyLjQgMTA2LjMsMTIxLjAgMTA2LjgsMTU4LjAgOTAuMCwxMjUuMCA3My4yLDE1OC4wIDczLjcsMTIxLjAgNDMuNiwxNDIuNCA2MS4yLDEwOS45IDI0LjUsMTE0LjggNTUuMyw5NC4yIDIwLjUsODEuNiA1Ny4zLDc3LjYgMzIuNCw1MC4yIDY2LjgsNjMuOCA1Ny41LDI4LjAgODEuNiw1Ni4wIiBmaWxsPSJibGFjayIvPgo8L3N2Zz4="
 };
 
 export function loadTestImage(imageName) {
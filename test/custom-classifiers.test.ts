@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ShapeClassifier } from "../src/classifier.js";
+import { ShapeDetectorCore } from "../src/detector-core.js";
+
+// --- CUSTOM CLASSIFIER TESTS ---
+// A shape a classifier from the options recognizes is kept whole, however
+// notched its outline. Run with `npm test`.
+
+const WIDTH = 200;
+const HEIGHT = 200;
+
+/**
+ * Paints a white scene with one black arrow pointing right: a 30px-thick
+ * shaft into a triangular head. Where the two meet, the outline has the
+ * same pair of notches as a rectangle touching a triangle.
+ */
+function makeArrow(): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const shaft = px >= 30 && px < 110 && Math.abs(py - 100) < 15;
+      const head = px >= 110 && px < 170 && Math.abs(py - 100) < 170 - px;
+      if (shaft || head) {
+        const i = (y * WIDTH + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+      }
+    }
+  }
+  return data;
+}
+
+// Seven corners and a hull the arrow fills only about two thirds of
+const arrowClassifier: ShapeClassifier = {
+  name: "arrow",
+  classify: (features) =>
+    features.vertices.length === 7 && features.solidity < 0.8 ? { type: "arrow", score: 0.6 } : null,
+};
+
+test("a concave shape is split at its notches without a classifier for it", () => {
+  const { shapes } = new ShapeDetectorCore().detectShapes(makeArrow(), WIDTH, HEIGHT);
+  assert.deepEqual(shapes.map((s) => s.type).sort(), ["rectangle", "triangle"]);
+});
+
+test("a concave shape a custom classifier recognizes is not split", () => {
+  const { shapes } = new ShapeDetectorCore({ classifiers: [arrowClassifier] }).detectShapes(makeArrow(), WIDTH, HEIGHT);
+  assert.equal(shapes.length, 1);
+  assert.equal(shapes[0].type, "arrow");
+  assert.equal(shapes[0].confidence, 0.6);
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ShapeDetectorCore } from "../src/detector-core.js";
+import type { Color } from "../src/shape-style.js";
+
+// --- SHAPE STYLE TESTS ---
+// Fill and stroke colors read off anti-aliased renders: outlines too
+// thin to have a solid run of their own color, and a shape drawn inside
+// another. Run with `npm test`.
+
+const WIDTH = 200;
+const HEIGHT = 200;
+// Samples per pixel along each axis, as a browser's anti-aliasing blends them
+const SUPERSAMPLING = 4;
+
+type RGB = [number, number, number];
+
+/**
+ * Paints a white scene, each pixel the average of `paint` over a grid of
+ * points inside it; `paint` gives the color at a point, or null for the
+ * background.
+ */
+function render(paint: (x: number, y: number) => RGB | null): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const sum = [0, 0, 0];
+      for (let sy = 0; sy < SUPERSAMPLING; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLING; sx++) {
+          const color = paint(x + (sx + 0.5) / SUPERSAMPLING, y + (sy + 0.5) / SUPERSAMPLING) ?? [255, 255, 255];
+          for (let c = 0; c < 3; c++) sum[c] += color[c];
+        }
+      }
+      const i = (y * WIDTH + x) * 4;
+      for (let c = 0; c < 3; c++) data[i + c] = Math.round(sum[c] / SUPERSAMPLING ** 2);
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+}
+
+/** A black circle outline `lineWidth` px wide, centered on radius 58. */
+function circleOutline(lineWidth: number): Uint8ClampedArray {
+  return render((x, y) => (Math.abs(Math.hypot(x - 100, y - 100) - 58) <= lineWidth / 2 ? [0, 0, 0] : null));
+}
+
+/** A black triangle outline `lineWidth` px wide. */
+function triangleOutline(lineWidth: number): Uint8ClampedArray {
+  const corners = [[100, 30], [170, 160], [30, 160]];
+  return render((x, y) => {
+    for (let k = 0; k < 3; k++) {
+      const [ax, ay] = corners[k];
+      const [bx, by] = corners[(k + 1) % 3];
+      const t = Math.max(0, Math.min(1, ((x - ax) * (bx - ax) + (y - ay) * (by - ay)) / ((bx - ax) ** 2 + (by - ay) ** 2)));
+      if (Math.hypot(x - ax - t * (bx - ax), y - ay - t * (by - ay)) <= lineWidth / 2) return [0, 0, 0];
+    }
+    return null;
+  });
+}
+
+function detect(data: Uint8ClampedArray) {
+  return new ShapeDetectorCore().detectShapes(data, WIDTH, HEIGHT).shapes;
+}
+
+/** True if every channel of `color` is at most `max`. */
+function darkerThan(color: Color | null, max: number): boolean {
+  return color !== null && color.r <= max && color.g <= max && color.b <= max;
+}
+
+test("a 1px circle outline reads as a thin dark stroke", () => {
+  const shapes = detect(circleOutline(1));
+  assert.equal(shapes.length, 1);
+  const { style } = shapes[0];
+  assert.equal(style.filled, false);
+  assert.equal(style.fill, null);
+  // Anti-aliasing spreads a 1px line over two pixels, so it is never solid black
+  assert.ok(darkerThan(style.stroke, 0x80), `stroke ${style.stroke?.hex}`);
+  assert.ok(style.strokeWidth >= 0.5 && style.strokeWidth <= 2, `strokeWidth ${style.strokeWidth}`);
+});
+
+test("a 2px circle outline reads as a black stroke 2px wide", () => {
+  const shapes = detect(circleOutline(2));
+  assert.equal(shapes.length, 1);
+  const { style } = shapes[0];
+  assert.equal(style.filled, false);
+  assert.ok(darkerThan(style.stroke, 0x08), `stroke ${style.stroke?.hex}`);
+  assert.ok(Math.abs(style.strokeWidth - 2) <= 0.3, `strokeWidth ${style.strokeWidth}`);
+});
+
+test("a 2px triangle outline reads as a black stroke 2px wide", () => {
+  const shapes = detect(triangleOutline(2));
+  assert.equal(shapes.length, 1);
+  assert.equal(shapes[0].type, "triangle");
+  const { style } = shapes[0];
+  assert.equal(style.filled, false);
+  assert.ok(darkerThan(style.stroke, 0x08), `stroke ${style.stroke?.hex}`);
+  assert.ok(Math.abs(style.strokeWidth - 2) <= 0.3, `strokeWidth ${style.strokeWidth}`);
+});
+
+test("a shape inside another doesn't lend it its color", () => {
+  const blue: RGB = [0x20, 0x60, 0xc0];
+  const yellow: RGB = [0xf0, 0xd0, 0x20];
+  const data = render((x, y) => {
+    if (Math.hypot(x - 100, y - 100) <= 40) return yellow;
+    return x >= 30 && x < 170 && y >= 30 && y < 170 ? blue : null;
+  });
+  const shapes = detect(data);
+  const square = shapes.find((shape) => shape.type === "rectangle");
+  const circle = shapes.find((shape) => shape.type === "circle");
+  assert.ok(square && circle);
+  assert.equal(square.style.fill?.hex, "#2060c0");
+  assert.equal(square.style.stroke, null);
+  assert.equal(square.style.strokeWidth, 0);
+  assert.equal(circle.style.fill?.hex, "#f0d020");
+  assert.equal(circle.parentId, square.id);
+});